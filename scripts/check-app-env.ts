@@ -0,0 +1,31 @@
+import { loadEnv } from "vite";
+import { APP_ENVIRONMENTS, AppEnvironment } from "@/config/brokerages";
+import { signInMethods } from "@/lib/agentSignIn";
+import { loadRegistry } from "./registry";
+
+// Fails `npm run build` unless the deployment's environment is complete, read
+// the way Vite will read it (the environment, then .env files for production
+// mode). The app never guesses from the hostname, so without VITE_APP_ENV a
+// production build on any domain would post its guides to the development
+// workflow. Email sign-in needs a real code service: the in-browser stand-in
+// signs with a secret in the bundle, so only the dev server uses it.
+const env = loadEnv("production", process.cwd(), "VITE_");
+const configured = env.VITE_APP_ENV;
+
+if (!configured) {
+  console.error(`VITE_APP_ENV is not set; set it to one of ${APP_ENVIRONMENTS.join(", ")} for this build`);
+  process.exit(1);
+}
+if (!APP_ENVIRONMENTS.includes(configured as AppEnvironment)) {
+  console.error(`VITE_APP_ENV "${configured}" is not one of ${APP_ENVIRONMENTS.join(", ")}`);
+  process.exit(1);
+}
+const emailSignIn = loadRegistry().filter((config) => signInMethods(config).includes("email"));
+if (emailSignIn.length && !env.VITE_AGENT_CODE_SERVICE_URL) {
+  console.error(
+    `${emailSignIn.map((config) => config.slug).join(", ")} offer${emailSignIn.length === 1 ? "s" : ""} email ` +
+      "sign-in; set VITE_AGENT_CODE_SERVICE_URL for this build",
+  );
+  process.exit(1);
+}
+console.log(`Building for ${configured}`);
@@ -0,0 +1,11 @@
+import { writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { buildFieldExport } from "@/lib/formSchema";
+import { loadRegistry } from "./registry";
+
+// Regenerates public/form-fields.json from src/config/formFields.ts and the
+// brokerage registry so the n8n workflow spec can never drift from what
+// BuyerGuideForm renders.
+const outFile = resolve(process.cwd(), "public/form-fields.json");
+writeFileSync(outFile, JSON.stringify(buildFieldExport(loadRegistry()), null, 2) + "\n");
+console.log(`Wrote ${outFile}`);
@@ -0,0 +1,18 @@
+import { isGuessablePin } from "@/lib/brokerageLint";
+import { PIN_LENGTH, hashPin } from "@/lib/pinAuth";
+
+// Prints the pinHash value for a brokerage: npm run hash-pin -- <slug> <pin>
+const [slug, pin] = process.argv.slice(2);
+if (!slug || !pin) {
+  console.error("Usage: npm run hash-pin -- <slug> <pin>");
+  process.exit(1);
+}
+if (!new RegExp(`^\\d{${PIN_LENGTH}}$`).test(pin)) {
+  console.error(`The PIN gate takes exactly ${PIN_LENGTH} digits`);
+  process.exit(1);
+}
+if (isGuessablePin(pin)) {
+  console.error(`${pin} is one of the first PINs anyone would try; pick another`);
+  process.exit(1);
+}
+console.log(await hashPin(slug, pin));
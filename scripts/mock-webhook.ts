@@ -0,0 +1,430 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { IncomingMessage, ServerResponse, createServer } from "node:http";
+import { resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { z } from "zod";
+import { normalizeEmail } from "@/lib/agentIdentity";
+import { AgentSignInError, createLocalCodeService, openLocalAgentToken } from "@/lib/agentSignIn";
+import { resolveFormFields } from "@/lib/fieldOverrides";
+import { buildPayloadSchema } from "@/lib/formSchema";
+import { hashPin, openLocalIntakeToken, verifyPin } from "@/lib/pinAuth";
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  createReplayGuard,
+  verifySignedRequest,
+} from "@/lib/requestSigning";
+import { loadRegistry } from "./registry";
+
+// Local stand-in for the n8n buyer-guide webhook. Run it next to `npm run dev`:
+//
+//   npm run mock:webhook                       # accept everything that validates
+//   npm run mock:webhook -- --status 503       # fail every request
+//   npm run mock:webhook -- --status 422 --message "Agent email bounced"
+//   npm run mock:webhook -- --delay 8000       # slow responses
+//
+// and point the app at it with VITE_WEBHOOK_URL=http://localhost:8787/webhook.
+// Responses can also be scripted while it runs, one per upcoming request:
+//
+//   curl -X POST localhost:8787/__mock/next -d '[{"status":500},{"drop":true}]'
+//
+// Every request is recorded under .mock-webhook/submissions/.
+//
+// GET /status?submission_id=<id> answers like the guide status endpoint
+// (VITE_STATUS_URL=http://localhost:8787/status): accepted guides are
+// "generating" for 20 seconds, then "emailed". Force a status with
+//
+//   curl -X POST localhost:8787/__mock/status -d '{"submission_id":"…","status":"failed","message":"Bounced"}'
+//
+// Requests must be signed (see src/lib/requestSigning.ts). The mock knows the
+// signing key of sessions it issued itself — set a brokerage's pinVerifyUrl to
+// http://localhost:8787/pin/verify — or of local pinHash sessions when given
+// the PIN: `--pin duston-leddy=123456` (repeatable). /pin/verify checks that
+// PIN too, falling back to a local registry's pinHash, and answers 429 after
+// five wrong guesses like the real verifier. `--allow-unsigned` only logs
+// signature failures.
+//
+// POST /agent-code/request and /agent-code/verify serve the email sign-in
+// contract (VITE_AGENT_CODE_SERVICE_URL=http://localhost:8787/agent-code),
+// printing each code here instead of emailing it. Sessions from email sign-in
+// need no --pin, and their verified_agent_email and agent_email must match the token.
+
+const behaviorSchema = z.object({
+  /** Status to answer with; validation still runs first unless this is set */
+  status: z.number().int().min(100).max(599).optional(),
+  /** Sent as a JSON `{ message }` body, which BuyerGuideForm shows to the agent */
+  message: z.string().optional(),
+  /** Sent as a plain-text body instead, to exercise the non-JSON branch */
+  text: z.string().optional(),
+  delayMs: z.number().int().min(0).optional(),
+  /** Close the socket without answering, like a dropped connection */
+  drop: z.boolean().optional(),
+});
+
+type Behavior = z.infer<typeof behaviorSchema>;
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: "string", default: process.env.MOCK_WEBHOOK_PORT ?? "8787" },
+    dir: { type: "string", default: ".mock-webhook" },
+    status: { type: "string" },
+    message: { type: "string" },
+    text: { type: "string" },
+    delay: { type: "string" },
+    drop: { type: "boolean" },
+    pin: { type: "string", multiple: true, default: [] },
+    "allow-unsigned": { type: "boolean", default: false },
+  },
+});
+
+// Read once at start-up; restart the mock after editing public/brokerages.json
+const brokerages = loadRegistry();
+
+const pinsBySlug = new Map(
+  (args.pin ?? []).map((entry) => {
+    const [slug, pin] = entry.split("=");
+    return [slug, pin] as const;
+  }),
+);
+
+const startupBehavior: Behavior = behaviorSchema.parse({
+  status: args.status ? Number(args.status) : undefined,
+  message: args.message,
+  text: args.text,
+  delayMs: args.delay ? Number(args.delay) : undefined,
+  drop: args.drop,
+});
+
+const submissionsDir = resolve(process.cwd(), args.dir, "submissions");
+mkdirSync(submissionsDir, { recursive: true });
+
+let defaultBehavior = startupBehavior;
+let scripted: Behavior[] = [];
+const GENERATING_MS = 20000;
+
+const statusOverrideSchema = z.object({
+  submission_id: z.string().min(1),
+  status: z.enum(["queued", "generating", "emailed", "failed"]),
+  message: z.string().optional(),
+});
+
+/** Idempotency keys already accepted, with when, so retries are acknowledged without a second record */
+const accepted = new Map<string, number>();
+const statusOverrides = new Map<string, z.infer<typeof statusOverrideSchema>>();
+const received: Record<string, unknown>[] = [];
+/** Signing keys of sessions issued by /pin/verify, by intake token */
+const issuedKeys = new Map<string, string>();
+const MAX_PIN_FAILURES = 5;
+const PIN_LOCKOUT_MS = 5 * 60 * 1000;
+/** Wrong PINs per brokerage since the first one in the current lockout window */
+const pinFailures = new Map<string, { count: number; since: number }>();
+const replayGuard = createReplayGuard();
+const agentCodes = createLocalCodeService((email, code) => console.log(`Sign-in code for ${email}: ${code}`));
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = async (req: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+const readJson = async (req: IncomingMessage) => {
+  const raw = await readBody(req);
+  return raw ? (JSON.parse(raw) as unknown) : undefined;
+};
+
+const header = (req: IncomingMessage, name: string) => {
+  const value = req.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const sleep = (ms: number) => new Promise((done) => setTimeout(done, ms));
+
+/** Validates a payload against the schema of the brokerage it names. */
+const validatePayload = (payload: unknown) => {
+  const slug = (payload as { brokerage_slug?: unknown } | undefined)?.brokerage_slug;
+  const brokerage = brokerages.find((candidate) => candidate.slug === slug);
+  if (!brokerage) {
+    return { ok: false, issues: [`Unknown brokerage_slug: ${String(slug)}`] };
+  }
+  const result = buildPayloadSchema(brokerage, resolveFormFields(brokerage)).safeParse(payload);
+  return result.success
+    ? { ok: true, issues: [] as string[] }
+    : { ok: false, issues: result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`) };
+};
+
+/** Checks the request signature with the key of the session named by `intake_token`. */
+const verifySignature = async (req: IncomingMessage, body: string, payload: unknown) => {
+  const {
+    intake_token: token,
+    brokerage_slug: slug,
+    verified_agent_email: verifiedEmail,
+    agent_email: agentEmail,
+  } = (payload ?? {}) as Record<string, unknown>;
+  let signingKey = typeof token === "string" ? issuedKeys.get(token) : undefined;
+  const pin = typeof slug === "string" ? pinsBySlug.get(slug) : undefined;
+  if (!signingKey && typeof token === "string" && pin) {
+    signingKey = (await openLocalIntakeToken(token, pin))?.signingKey;
+  }
+  const agentSession = typeof token === "string" ? await openLocalAgentToken(token) : null;
+  if (verifiedEmail !== undefined && verifiedEmail !== agentSession?.email) {
+    return { ok: false, reason: "verified_agent_email doesn't match the intake token" };
+  }
+  // Also caught by the payload schema, but only when verified_agent_email is sent at all
+  if (agentSession && (typeof agentEmail !== "string" || normalizeEmail(agentEmail) !== agentSession.email)) {
+    return { ok: false, reason: "agent_email doesn't match the agent the intake token was issued to" };
+  }
+  signingKey ??= agentSession?.signingKey;
+  if (!signingKey) {
+    return { ok: false, reason: "Unknown intake token; start the mock with --pin <slug>=<pin>" };
+  }
+  return verifySignedRequest({
+    body,
+    timestamp: header(req, TIMESTAMP_HEADER),
+    signature: header(req, SIGNATURE_HEADER),
+    signingKey,
+    replayGuard,
+  });
+};
+
+const record = (entry: Record<string, unknown>) => {
+  received.push(entry);
+  const id = String(entry.submissionId ?? "unknown").replace(/[^\w-]/g, "_");
+  const file = resolve(submissionsDir, `${Date.now()}-${id}.json`);
+  writeFileSync(file, JSON.stringify(entry, null, 2) + "\n");
+  return file;
+};
+
+const handleWebhook = async (req: IncomingMessage, res: ServerResponse) => {
+  const behavior = scripted.shift() ?? defaultBehavior;
+  const idempotencyKey = req.headers["idempotency-key"];
+
+  const body = await readBody(req);
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return sendJson(res, 400, { message: "Request body is not valid JSON" });
+  }
+
+  const signature = await verifySignature(req, body, payload);
+  const rejectSignature = !signature.ok && !args["allow-unsigned"];
+  const validation = validatePayload(payload);
+  let status = behavior.status ?? (rejectSignature ? 401 : validation.ok ? 200 : 422);
+  const duplicate = typeof idempotencyKey === "string" && accepted.has(idempotencyKey);
+  if (duplicate && !behavior.status && !rejectSignature) status = 200;
+
+  const file = record({
+    receivedAt: new Date().toISOString(),
+    submissionId: (payload as { submission_id?: unknown } | undefined)?.submission_id,
+    idempotencyKey,
+    duplicate,
+    signature: signature.ok ? "valid" : signature.reason,
+    valid: validation.ok,
+    issues: validation.issues,
+    response: behavior.drop ? "dropped" : status,
+    payload,
+  });
+  console.log(
+    `${behavior.drop ? "DROP" : status} ${idempotencyKey ?? "(no Idempotency-Key)"}` +
+      `${duplicate ? " duplicate" : ""}${signature.ok ? "" : ` bad signature: ${signature.reason}`}` +
+      `${validation.ok ? "" : ` invalid: ${validation.issues.join("; ")}`} → ${file}`,
+  );
+
+  if (behavior.delayMs) await sleep(behavior.delayMs);
+  if (behavior.drop) {
+    req.socket.destroy();
+    return;
+  }
+  if (status < 300 && typeof idempotencyKey === "string") accepted.set(idempotencyKey, Date.now());
+
+  if (behavior.text !== undefined) {
+    res.writeHead(status, { "Content-Type": "text/plain" });
+    res.end(behavior.text);
+  } else if (behavior.message !== undefined) {
+    sendJson(res, status, { message: behavior.message });
+  } else if (rejectSignature && !behavior.status) {
+    sendJson(res, status, { message: signature.reason });
+  } else if (!validation.ok && !behavior.status) {
+    sendJson(res, status, { message: "Payload failed validation", issues: validation.issues });
+  } else {
+    sendJson(res, status, { status: duplicate ? "duplicate" : status < 300 ? "received" : "error" });
+  }
+};
+
+/** Stand-in PIN verifier that issues sessions whose signing keys the mock knows. */
+const handlePinVerify = async (req: IncomingMessage, res: ServerResponse) => {
+  let body: { brokerage_slug?: unknown; pin?: unknown };
+  try {
+    body = ((await readJson(req)) ?? {}) as typeof body;
+  } catch {
+    return sendJson(res, 400, { message: "Request body is not valid JSON" });
+  }
+  const brokerage = brokerages.find((candidate) => candidate.slug === body.brokerage_slug);
+  if (!brokerage || typeof body.pin !== "string") {
+    return sendJson(res, 400, { message: "Expected { brokerage_slug, pin }" });
+  }
+  const pin = pinsBySlug.get(brokerage.slug);
+  if (!pin && !brokerage.pinHash) {
+    return sendJson(res, 400, { message: `Start the mock with --pin ${brokerage.slug}=<pin>` });
+  }
+  const failures = pinFailures.get(brokerage.slug);
+  const recent = failures && Date.now() - failures.since < PIN_LOCKOUT_MS ? failures : undefined;
+  if (recent && recent.count >= MAX_PIN_FAILURES) {
+    return sendJson(res, 429, { message: "Too many wrong PINs. Wait a few minutes and try again." });
+  }
+  // Check against the --pin value or the pinHash, whatever verifier the config points at
+  const pinHash = pin ? await hashPin(brokerage.slug, pin) : brokerage.pinHash;
+  const session = await verifyPin({ ...brokerage, pinHash, pinVerifyUrl: undefined }, body.pin);
+  if (!session) {
+    pinFailures.set(brokerage.slug, { count: (recent?.count ?? 0) + 1, since: recent?.since ?? Date.now() });
+    return sendJson(res, 401, { message: "Incorrect PIN" });
+  }
+  pinFailures.delete(brokerage.slug);
+  issuedKeys.set(session.token, session.signingKey);
+  sendJson(res, 200, {
+    token: session.token,
+    expires_at: session.expiresAt,
+    signing_key: session.signingKey,
+  });
+};
+
+/** Stand-in email sign-in service; codes are printed rather than emailed. */
+const handleAgentCode = async (req: IncomingMessage, res: ServerResponse, path: string) => {
+  let body: { brokerage_slug?: unknown; email?: unknown; code?: unknown };
+  try {
+    body = ((await readJson(req)) ?? {}) as typeof body;
+  } catch {
+    return sendJson(res, 400, { message: "Request body is not valid JSON" });
+  }
+  const brokerage = brokerages.find((candidate) => candidate.slug === body.brokerage_slug);
+  if (!brokerage || typeof body.email !== "string") {
+    return sendJson(res, 400, { message: "Expected { brokerage_slug, email }" });
+  }
+  try {
+    if (path.endsWith("/request")) {
+      await agentCodes.requestCode(brokerage, body.email);
+      return sendJson(res, 202, { status: "sent" });
+    }
+    const session = await agentCodes.verifyCode(brokerage, body.email, String(body.code ?? ""));
+    if (!session) {
+      return sendJson(res, 401, { message: "Incorrect or expired code" });
+    }
+    sendJson(res, 200, {
+      token: session.token,
+      expires_at: session.expiresAt,
+      signing_key: session.signingKey,
+    });
+  } catch (error) {
+    if (!(error instanceof AgentSignInError)) throw error;
+    sendJson(res, path.endsWith("/request") ? 403 : 429, { message: error.message });
+  }
+};
+
+/** Stand-in guide status endpoint; submission IDs are the idempotency keys the webhook accepted. */
+const handleStatus = (req: IncomingMessage, res: ServerResponse) => {
+  const submissionId = new URL(req.url ?? "/", "http://localhost").searchParams.get("submission_id") ?? "";
+  const override = statusOverrides.get(submissionId);
+  if (override) {
+    return sendJson(res, 200, { status: override.status, message: override.message });
+  }
+  const acceptedAt = accepted.get(submissionId);
+  if (acceptedAt === undefined) {
+    return sendJson(res, 404, { message: `No guide with submission_id ${submissionId}` });
+  }
+  const generating = Date.now() - acceptedAt < GENERATING_MS;
+  sendJson(res, 200, {
+    status: generating ? "generating" : "emailed",
+    updated_at: generating ? acceptedAt : acceptedAt + GENERATING_MS,
+  });
+};
+
+/** `/__mock/*` control endpoints for scripting responses from tests or curl. */
+const handleControl = async (req: IncomingMessage, res: ServerResponse, path: string) => {
+  const route = `${req.method} ${path}`;
+  if (route === "GET /__mock/submissions") {
+    return sendJson(res, 200, received);
+  }
+  if (route === "POST /__mock/reset") {
+    defaultBehavior = startupBehavior;
+    scripted = [];
+    accepted.clear();
+    statusOverrides.clear();
+    received.length = 0;
+    return sendJson(res, 200, { ok: true });
+  }
+  if (route === "POST /__mock/next" || route === "POST /__mock/default") {
+    let body: unknown;
+    try {
+      body = await readJson(req);
+    } catch {
+      return sendJson(res, 400, { message: "Request body is not valid JSON" });
+    }
+    const parsed = (path === "/__mock/next" ? z.array(behaviorSchema).or(behaviorSchema) : behaviorSchema).safeParse(body ?? {});
+    if (!parsed.success) {
+      return sendJson(res, 400, { message: "Invalid behavior", issues: parsed.error.issues });
+    }
+    if (path === "/__mock/next") {
+      scripted.push(...(Array.isArray(parsed.data) ? parsed.data : [parsed.data]));
+    } else {
+      defaultBehavior = parsed.data as Behavior;
+    }
+    return sendJson(res, 200, { default: defaultBehavior, next: scripted });
+  }
+  if (route === "POST /__mock/status") {
+    let body: unknown;
+    try {
+      body = await readJson(req);
+    } catch {
+      return sendJson(res, 400, { message: "Request body is not valid JSON" });
+    }
+    const parsed = statusOverrideSchema.safeParse(body);
+    if (!parsed.success) {
+      return sendJson(res, 400, { message: "Invalid status", issues: parsed.error.issues });
+    }
+    statusOverrides.set(parsed.data.submission_id, parsed.data);
+    return sendJson(res, 200, parsed.data);
+  }
+  sendJson(res, 404, { message: `No control route ${route}` });
+};
+
+const server = createServer((req, res) => {
+  // The dev server runs on another port, and Idempotency-Key makes every POST preflighted
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  res.setHeader(
+    "Access-Control-Allow-Headers",
+    `Content-Type, Idempotency-Key, ${TIMESTAMP_HEADER}, ${SIGNATURE_HEADER}`,
+  );
+  if (req.method === "OPTIONS") {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const path = new URL(req.url ?? "/", "http://localhost").pathname;
+  const handler = path.startsWith("/__mock/")
+    ? handleControl(req, res, path)
+    : req.method === "POST" && path === "/pin/verify"
+      ? handlePinVerify(req, res)
+      : req.method === "POST" && (path === "/agent-code/request" || path === "/agent-code/verify")
+        ? handleAgentCode(req, res, path)
+        : req.method === "GET" && path === "/status"
+          ? Promise.resolve(handleStatus(req, res))
+          : req.method === "POST"
+            ? handleWebhook(req, res)
+            : Promise.resolve(sendJson(res, 405, { message: "POST a buyer-guide payload to any path" }));
+  handler.catch((error) => {
+    console.error(error);
+    if (!res.headersSent) sendJson(res, 500, { message: "Mock webhook crashed" });
+  });
+});
+
+server.listen(Number(args.port), () => {
+  console.log(`Mock webhook listening on http://localhost:${args.port}/webhook`);
+  console.log(`Recording submissions in ${submissionsDir}`);
+});
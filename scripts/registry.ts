@@ -0,0 +1,9 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { parseBrokerageRegistry } from "@/lib/brokerageRegistry";
+
+/** The registry the app serves as /brokerages.json */
+export const REGISTRY_FILE = resolve(process.cwd(), "public/brokerages.json");
+
+/** Reads and validates a registry file; throws BrokerageRegistryError when malformed. */
+export const loadRegistry = (file = REGISTRY_FILE) => parseBrokerageRegistry(JSON.parse(readFileSync(file, "utf8")));
@@ -0,0 +1,68 @@
+import { parseArgs } from "node:util";
+import { resolve } from "node:path";
+import { BrokerageLintIssue, findGuessablePin, lintBrokerage } from "@/lib/brokerageLint";
+import { BrokerageRegistryError } from "@/lib/brokerageRegistry";
+import { REGISTRY_FILE, loadRegistry } from "./registry";
+
+// Checks the brokerage registry before it ships: the same schema the app
+// loads it with, plus lint rules for mistakes that would only surface in
+// production. Exits 1 on any error (and on warnings with --strict).
+//
+//   npm run validate:brokerages
+//   npm run validate:brokerages -- path/to/brokerages.json --strict
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    strict: { type: "boolean", default: false },
+  },
+});
+const file = positionals[0] ? resolve(process.cwd(), positionals[0]) : REGISTRY_FILE;
+
+let registry;
+try {
+  registry = loadRegistry(file);
+} catch (error) {
+  console.error(`✖ ${file}`);
+  if (error instanceof BrokerageRegistryError) {
+    error.issues.forEach((issue) => console.error(`  ${issue}`));
+    if (!error.issues.length) console.error(`  ${error.message}`);
+  } else {
+    console.error(`  ${error instanceof Error ? error.message : String(error)}`);
+  }
+  process.exit(1);
+}
+
+const issues: BrokerageLintIssue[] = [];
+for (const config of registry) {
+  issues.push(...lintBrokerage(config, registry));
+  const pin = await findGuessablePin(config);
+  if (pin) {
+    issues.push({
+      slug: config.slug,
+      path: "pinHash",
+      severity: "error",
+      message: `The PIN is ${pin}, one of the first anyone would try; choose another and re-hash`,
+    });
+  }
+}
+
+const errors = issues.filter((issue) => issue.severity === "error").length;
+const warnings = issues.length - errors;
+
+console.log(file);
+for (const config of registry) {
+  const own = issues.filter((issue) => issue.slug === config.slug);
+  console.log(`  ${own.length ? (own.some((issue) => issue.severity === "error") ? "✖" : "⚠") : "✔"} ${config.slug}`);
+  own.forEach((issue) =>
+    console.log(`      ${issue.severity === "error" ? "error  " : "warning"}  ${issue.path}: ${issue.message}`),
+  );
+}
+console.log(
+  `\n${registry.length} brokerage${registry.length === 1 ? "" : "s"}, ` +
+    `${errors} error${errors === 1 ? "" : "s"}, ${warnings} warning${warnings === 1 ? "" : "s"}`,
+);
+
+if (errors || (args.strict && warnings)) {
+  process.exit(1);
+}
@@ -4,7 +4,9 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { HelmetProvider } from "react-helmet-async";
+import EnvironmentBanner from "@/components/EnvironmentBanner";
 import Index from "./pages/Index";
+import AdminPage from "./pages/AdminPage";
 import BrokeragePage from "./pages/BrokeragePage";
 import NotFound from "./pages/NotFound";
 
@@ -16,10 +18,13 @@ const App = () => (
       <TooltipProvider>
         <Toaster />
         <Sonner />
+        <EnvironmentBanner />
         <BrowserRouter>
           <Routes>
             <Route path="/" element={<Index />} />
+            <Route path="/admin" element={<AdminPage />} />
             <Route path="/:slug" element={<BrokeragePage />} />
+            <Route path="/:slug/guides" element={<BrokeragePage view="history" />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,282 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { AlertCircle, AlertTriangle, CheckCircle2, Copy, Download, Info, Plus, RotateCcw } from "lucide-react";
+import BrokerageEditor from "@/components/BrokerageEditor";
+import BuyerGuideForm from "@/components/BuyerGuideForm";
+import { BrokerageConfig } from "@/config/brokerages";
+import { brokerageConfigSchema } from "@/lib/brokerageRegistry";
+import {
+  RegistryDraftEntry,
+  checkRegistryDraft,
+  clearRegistryDraft,
+  createBrokerageDraft,
+  draftFromRegistry,
+  loadRegistryDraft,
+  saveRegistryDraft,
+  serializeRegistry,
+} from "@/lib/registryDraft";
+import { brandingCssVariables } from "@/lib/theme";
+
+interface AdminConsoleProps {
+  /** The registry agents currently get */
+  registry: BrokerageConfig[];
+}
+
+/** The intake form as agents would see it with the unsaved config; nothing is saved or sent. */
+const BrokeragePreview: React.FC<{ config: BrokerageConfig }> = ({ config }) => {
+  const isRenderable = brokerageConfigSchema.safeParse(config).success;
+  if (!isRenderable) {
+    return (
+      <p className="text-sm text-text-tertiary text-center py-24 px-6">
+        Fix the problems listed for this brokerage to see the preview.
+      </p>
+    );
+  }
+  return (
+    // Scoped to the preview so the console itself keeps the default theme
+    <div style={brandingCssVariables(config.branding) as React.CSSProperties} className="bg-background">
+      <BuyerGuideForm
+        // Option overrides change the form's defaults, which only apply on mount
+        key={JSON.stringify([config.slug, config.fieldOverrides, config.layout])}
+        brokerage={config}
+        preview
+      />
+    </div>
+  );
+};
+
+const AdminConsole: React.FC<AdminConsoleProps> = ({ registry }) => {
+  const published = useMemo(() => draftFromRegistry(registry), [registry]);
+  const [entries, setEntries] = useState<RegistryDraftEntry[]>(() => loadRegistryDraft() ?? published);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [editorRevision, setEditorRevision] = useState(0);
+  const selected = entries[selectedIndex];
+
+  const isModified = JSON.stringify(entries) !== JSON.stringify(published);
+  useEffect(() => {
+    if (isModified) saveRegistryDraft(entries);
+    else clearRegistryDraft();
+  }, [entries, isModified]);
+
+  const check = useMemo(() => checkRegistryDraft(entries.map((entry) => entry.config)), [entries]);
+  const errorCount =
+    check.schemaIssues.length + check.lintIssues.filter((issue) => issue.severity === "error").length;
+
+  const publishedConfig = (entry: RegistryDraftEntry) =>
+    registry.find((config) => config.slug === entry.publishedSlug);
+  const entryStatus = (entry: RegistryDraftEntry) =>
+    !entry.publishedSlug
+      ? "New"
+      : JSON.stringify(entry.config) !== JSON.stringify(publishedConfig(entry))
+        ? "Edited"
+        : undefined;
+
+  const updateSelected = (config: BrokerageConfig) =>
+    setEntries((current) => current.map((entry, i) => (i === selectedIndex ? { ...entry, config } : entry)));
+
+  const addBrokerage = () => {
+    setEntries((current) => [...current, { config: createBrokerageDraft() }]);
+    setSelectedIndex(entries.length);
+  };
+
+  const removeSelected = () => {
+    setEntries((current) => current.filter((_, i) => i !== selectedIndex));
+    setSelectedIndex(0);
+    setEditorRevision((current) => current + 1);
+  };
+
+  const discardChanges = () => {
+    setEntries(published);
+    setSelectedIndex(0);
+    // Editors keep some text locally, so remount them onto the published values
+    setEditorRevision((current) => current + 1);
+  };
+
+  const registryJson = () => serializeRegistry(entries.map((entry) => entry.config));
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([registryJson()], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "brokerages.json";
+    link.click();
+    URL.revokeObjectURL(url);
+    toast.success("Registry exported", {
+      description: "Replace public/brokerages.json with it and deploy; the build validates it first.",
+    });
+  };
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(registryJson());
+      toast.success("Registry JSON copied");
+    } catch (error) {
+      console.error("Could not copy the registry:", error);
+      toast.error("Couldn't copy; use Export instead");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background py-6 px-4 md:px-6">
+      <div className="max-w-[1600px] mx-auto">
+        <header className="flex flex-wrap items-center justify-between gap-3 mb-6">
+          <div>
+            <h1 className="font-heading font-semibold text-[28px] text-foreground">Brokerage Registry Editor</h1>
+            <p className="text-sm text-text-tertiary">
+              {isModified
+                ? "Unpublished changes are saved on this device until you export them."
+                : "Showing the published registry."}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {isModified && (
+              <button
+                type="button"
+                onClick={discardChanges}
+                className="inline-flex items-center gap-2 px-3 py-2 rounded-md border border-input bg-card text-sm font-medium text-text-secondary hover:bg-muted"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Discard changes
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={copy}
+              disabled={!check.canExport}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-md border border-input bg-card text-sm font-medium text-text-secondary hover:bg-muted disabled:opacity-50"
+            >
+              <Copy className="w-4 h-4" />
+              Copy JSON
+            </button>
+            <button
+              type="button"
+              onClick={download}
+              disabled={!check.canExport}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-md bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              Export registry
+            </button>
+          </div>
+        </header>
+
+        <div className="flex items-start gap-2 mb-6 rounded-lg border border-input bg-card p-3 text-sm text-text-secondary">
+          <Info className="w-4 h-4 mt-0.5 shrink-0 text-text-tertiary" />
+          <p>
+            A local editing tool with no access control: anyone who opens this page can use it. Changes stay on this
+            device and only take effect once the exported registry is reviewed, committed and deployed.
+          </p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[220px_minmax(0,1fr)] xl:grid-cols-[220px_minmax(0,1fr)_minmax(0,1fr)]">
+          <nav aria-label="Brokerages" className="space-y-2">
+            {entries.map((entry, index) => {
+              const status = entryStatus(entry);
+              return (
+                <button
+                  key={index}
+                  type="button"
+                  onClick={() => setSelectedIndex(index)}
+                  className={`w-full text-left rounded-lg border-2 p-3 transition-all duration-150 ${
+                    index === selectedIndex ? "border-primary bg-secondary" : "border-input bg-card hover:border-primary/50"
+                  }`}
+                >
+                  <span className="block font-medium text-foreground truncate">{entry.config.name || "Untitled"}</span>
+                  <span className="flex items-center justify-between gap-2 text-xs text-text-tertiary">
+                    <span className="font-mono truncate">/{entry.config.slug}</span>
+                    {status && <span className="shrink-0 text-primary font-medium">{status}</span>}
+                  </span>
+                </button>
+              );
+            })}
+            <button
+              type="button"
+              onClick={addBrokerage}
+              className="w-full inline-flex items-center justify-center gap-1.5 rounded-lg border-2 border-dashed border-input p-3 text-sm font-medium text-text-secondary hover:border-primary/50"
+            >
+              <Plus className="w-4 h-4" />
+              New brokerage
+            </button>
+          </nav>
+
+          <div className="space-y-6 min-w-0">
+            <section
+              className={`rounded-xl border p-4 text-sm ${
+                errorCount
+                  ? "border-destructive/50 bg-destructive/10"
+                  : "border-success/40 bg-success/10"
+              }`}
+            >
+              {errorCount === 0 && check.lintIssues.length === 0 ? (
+                <p className="flex items-center gap-2 font-medium text-success">
+                  <CheckCircle2 className="w-4 h-4" />
+                  Every brokerage passes validation.
+                </p>
+              ) : (
+                <ul className="space-y-1.5">
+                  {check.schemaIssues.map((issue) => (
+                    <li key={issue} className="flex gap-2 text-destructive">
+                      <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                      {issue}
+                    </li>
+                  ))}
+                  {check.lintIssues.map((issue) => (
+                    <li
+                      key={`${issue.slug}-${issue.path}-${issue.message}`}
+                      className={`flex gap-2 ${issue.severity === "error" ? "text-destructive" : "text-amber-700 dark:text-amber-300"}`}
+                    >
+                      {issue.severity === "error" ? (
+                        <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                      ) : (
+                        <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                      )}
+                      {issue.slug} › {issue.path}: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {errorCount > 0 && (
+                <p className="mt-3 text-xs text-text-secondary">Export is disabled until every error is fixed.</p>
+              )}
+            </section>
+
+            {selected && (
+              <>
+                <BrokerageEditor
+                  key={`${editorRevision}-${selectedIndex}`}
+                  config={selected.config}
+                  publishedSlug={selected.publishedSlug}
+                  onChange={updateSelected}
+                />
+                {!selected.publishedSlug && (
+                  <button
+                    type="button"
+                    onClick={removeSelected}
+                    className="text-sm font-medium text-destructive hover:underline"
+                  >
+                    Remove this new brokerage
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+
+          {selected && (
+            <aside className="min-w-0 lg:col-start-2 xl:col-start-auto">
+              <div className="xl:sticky xl:top-6 rounded-xl border border-input overflow-hidden">
+                <p className="px-4 py-2 border-b border-input bg-muted text-xs font-medium uppercase tracking-wide text-text-tertiary">
+                  Live preview
+                </p>
+                <div className="xl:max-h-[calc(100vh-6rem)] overflow-y-auto">
+                  <BrokeragePreview config={selected.config} />
+                </div>
+              </div>
+            </aside>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminConsole;
@@ -0,0 +1,177 @@
+import React, { useState } from "react";
+import { Loader2, Mail } from "lucide-react";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { BrokerageConfig } from "@/config/brokerages";
+import { isBrokerageAgent, loadRememberedAgents, normalizeEmail } from "@/lib/agentIdentity";
+import { AgentCodeService, AgentSignInError, SIGN_IN_CODE_LENGTH } from "@/lib/agentSignIn";
+import { IntakeSession } from "@/lib/pinAuth";
+
+interface AgentEmailSignInProps {
+  brokerage: BrokerageConfig;
+  service: AgentCodeService;
+  onVerified: (session: IntakeSession) => void;
+  notice?: string;
+}
+
+/** Two steps: the agent's email, then the one-time code sent to it. */
+const AgentEmailSignIn: React.FC<AgentEmailSignInProps> = ({ brokerage, service, onVerified, notice }) => {
+  const [email, setEmail] = useState(() => loadRememberedAgents(brokerage)[0] ?? "");
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const describeError = (err: unknown, fallback: string) => {
+    if (err instanceof AgentSignInError) return err.message;
+    console.error("Email sign-in failed:", err);
+    return fallback;
+  };
+
+  const requestCode = async () => {
+    const address = normalizeEmail(email);
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address)) {
+      setError("Enter your email address.");
+      return;
+    }
+    // The service checks too; this just saves a round trip for an obvious typo
+    if (!isBrokerageAgent(brokerage, address)) {
+      setError(`${address} isn't set up to send guides for ${brokerage.name}.`);
+      return;
+    }
+    setIsBusy(true);
+    setError("");
+    try {
+      await service.requestCode(brokerage, address);
+      setSentTo(address);
+      setCode("");
+    } catch (err) {
+      setError(describeError(err, "We couldn't send a code. Please check your connection and try again."));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const verifyCode = async (value: string) => {
+    if (!sentTo) return;
+    setIsBusy(true);
+    setError("");
+    try {
+      const session = await service.verifyCode(brokerage, sentTo, value);
+      if (!session) {
+        setError("That code doesn't match or has expired. Please try again.");
+        setCode("");
+        return;
+      }
+      onVerified(session);
+    } catch (err) {
+      setError(describeError(err, "We couldn't check your code. Please check your connection and try again."));
+      setCode("");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!sentTo) requestCode();
+        else if (code.length === SIGN_IN_CODE_LENGTH) verifyCode(code);
+      }}
+    >
+      <div className="w-12 h-12 mx-auto mb-4 rounded-full bg-secondary flex items-center justify-center">
+        <Mail className="w-5 h-5 text-primary" />
+      </div>
+      <h1 className="font-heading font-semibold text-2xl text-foreground mb-2">
+        {sentTo ? "Check Your Email" : "Sign In With Email"}
+      </h1>
+      <p className="text-text-tertiary text-sm mb-6">
+        {sentTo ? (
+          <>
+            Enter the {SIGN_IN_CODE_LENGTH}-digit code we sent to{" "}
+            <span className="font-medium text-text-secondary">{sentTo}</span>.
+          </>
+        ) : (
+          notice ?? `We'll email you a one-time code. Guides you send are signed with this address.`
+        )}
+      </p>
+
+      {sentTo ? (
+        <div className="flex justify-center mb-4">
+          <InputOTP
+            maxLength={SIGN_IN_CODE_LENGTH}
+            value={code}
+            onChange={setCode}
+            onComplete={verifyCode}
+            disabled={isBusy}
+            inputMode="numeric"
+            pattern="^[0-9]+$"
+            autoComplete="one-time-code"
+            autoFocus
+          >
+            <InputOTPGroup>
+              {Array.from({ length: SIGN_IN_CODE_LENGTH }).map((_, i) => (
+                <InputOTPSlot key={i} index={i} className="h-12 w-12 text-lg" />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      ) : (
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder={`agent@${brokerage.agentEmailDomains?.[0] ?? "example.com"}`}
+          aria-label="Your email"
+          autoComplete="email"
+          autoFocus
+          className="form-input mb-4"
+        />
+      )}
+
+      {error && (
+        <div className="mb-4 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-destructive text-sm font-medium">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isBusy || (!!sentTo && code.length !== SIGN_IN_CODE_LENGTH)}
+        className="btn-submit flex items-center justify-center gap-2"
+      >
+        {isBusy ? (
+          <>
+            <Loader2 className="w-5 h-5 animate-spin" />
+            <span>{sentTo ? "Verifying..." : "Sending code..."}</span>
+          </>
+        ) : sentTo ? (
+          "Continue"
+        ) : (
+          "Email Me a Code"
+        )}
+      </button>
+
+      {sentTo && (
+        <div className="flex justify-center gap-4 mt-4 text-sm">
+          <button type="button" onClick={requestCode} disabled={isBusy} className="text-primary hover:underline">
+            Resend code
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setSentTo(null);
+              setError("");
+            }}
+            disabled={isBusy}
+            className="text-text-tertiary hover:underline"
+          >
+            Use a different email
+          </button>
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default AgentEmailSignIn;
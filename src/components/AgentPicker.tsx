@@ -0,0 +1,141 @@
+import React, { useState } from "react";
+import { Check, ChevronsUpDown, UserRound } from "lucide-react";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AgentRosterEntry, BrokerageConfig } from "@/config/brokerages";
+import { findAgentPlacement, findRosterAgent, isBrokerageAgent, normalizeEmail } from "@/lib/agentIdentity";
+
+interface AgentPickerProps {
+  brokerage: BrokerageConfig;
+  value: string;
+  onChange: (email: string) => void;
+  placeholder?: string;
+}
+
+const AgentAvatar: React.FC<{ agent?: AgentRosterEntry }> = ({ agent }) =>
+  agent?.headshotUrl ? (
+    <img src={agent.headshotUrl} alt="" className="w-8 h-8 shrink-0 rounded-full object-cover bg-muted" />
+  ) : (
+    <span className="w-8 h-8 shrink-0 rounded-full bg-secondary text-primary text-xs font-semibold flex items-center justify-center">
+      {agent?.name ? (
+        agent.name
+          .split(/\s+/)
+          .map((part) => part[0])
+          .slice(0, 2)
+          .join("")
+          .toUpperCase()
+      ) : (
+        <UserRound className="w-4 h-4" />
+      )}
+    </span>
+  );
+
+/**
+ * Searchable list of the brokerage's roster, grouped by office. When the
+ * brokerage also accepts whole domains, a typed address on one of them can be
+ * used without being on the list.
+ */
+const AgentPicker: React.FC<AgentPickerProps> = ({ brokerage, value, onChange, placeholder }) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const selected = value ? findRosterAgent(brokerage, value) : undefined;
+
+  const agents = brokerage.agents ?? [];
+  const offices = brokerage.offices ?? [];
+  const groups = [
+    ...offices.map((office) => ({
+      heading: office.name,
+      agents: agents.filter((agent) => agent.office === office.id),
+    })),
+    {
+      heading: offices.length ? "Other agents" : undefined,
+      agents: agents.filter((agent) => !offices.some((office) => office.id === agent.office)),
+    },
+  ].filter((group) => group.agents.length);
+
+  const typed = normalizeEmail(search);
+  const canUseTyped =
+    !!brokerage.agentEmailDomains?.length &&
+    /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(typed) &&
+    isBrokerageAgent(brokerage, typed) &&
+    !findRosterAgent(brokerage, typed);
+
+  const choose = (email: string) => {
+    onChange(email);
+    setSearch("");
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          role="combobox"
+          aria-expanded={open}
+          className="form-input flex items-center gap-3 h-auto min-h-12 py-2 text-left"
+        >
+          {value ? (
+            <>
+              <AgentAvatar agent={selected} />
+              <span className="flex-1 min-w-0">
+                <span className="block truncate text-foreground">{selected?.name ?? value}</span>
+                {selected?.name && <span className="block truncate text-xs text-text-tertiary">{value}</span>}
+              </span>
+            </>
+          ) : (
+            <span className="flex-1 text-text-tertiary">{placeholder ?? "Find yourself on the agent list"}</span>
+          )}
+          <ChevronsUpDown className="w-4 h-4 shrink-0 text-text-tertiary" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-[--radix-popover-trigger-width] p-0">
+        <Command>
+          <CommandInput value={search} onValueChange={setSearch} placeholder="Search by name, email or office" />
+          <CommandList>
+            <CommandEmpty>
+              {brokerage.agentEmailDomains?.length
+                ? `No agent matches. Type your full @${brokerage.agentEmailDomains[0]} address to use it.`
+                : "No agent matches."}
+            </CommandEmpty>
+            {canUseTyped && (
+              <CommandGroup>
+                <CommandItem value={typed} onSelect={() => choose(typed)}>
+                  Use {typed}
+                </CommandItem>
+              </CommandGroup>
+            )}
+            {groups.map((group) => (
+              <CommandGroup key={group.heading ?? "agents"} heading={group.heading}>
+                {group.agents.map((agent) => {
+                  const { office, team } = findAgentPlacement(brokerage, agent);
+                  const isSelected = normalizeEmail(agent.email) === normalizeEmail(value);
+                  return (
+                    <CommandItem
+                      key={agent.email}
+                      // cmdk matches the search against this string
+                      value={[agent.name, agent.email, office?.name, team?.name].filter(Boolean).join(" ")}
+                      onSelect={() => choose(agent.email)}
+                      className="gap-3"
+                    >
+                      <AgentAvatar agent={agent} />
+                      <span className="flex-1 min-w-0">
+                        <span className="block truncate">{agent.name ?? agent.email}</span>
+                        <span className="block truncate text-xs text-text-tertiary">
+                          {[agent.name && agent.email, team?.name].filter(Boolean).join(" · ")}
+                        </span>
+                      </span>
+                      {isSelected && <Check className="w-4 h-4 shrink-0 text-primary" />}
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default AgentPicker;
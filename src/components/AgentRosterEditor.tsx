@@ -0,0 +1,226 @@
+import React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { AgentRosterEntry, BrokerageOffice, BrokerageTeam } from "@/config/brokerages";
+import { slugify } from "@/lib/registryDraft";
+
+interface AgentRosterEditorProps {
+  agents?: AgentRosterEntry[];
+  offices?: BrokerageOffice[];
+  onChange: (patch: { agents?: AgentRosterEntry[]; offices?: BrokerageOffice[] }) => void;
+}
+
+const iconButton = "p-2 rounded-md text-text-tertiary hover:bg-muted hover:text-destructive";
+const addButton = "inline-flex items-center gap-1.5 text-sm font-medium text-primary hover:underline";
+
+const TextInput: React.FC<{
+  label: string;
+  value?: string;
+  onChange: (value: string | undefined) => void;
+  placeholder?: string;
+  mono?: boolean;
+}> = ({ label, value, onChange, placeholder, mono }) => (
+  <label className="block">
+    <span className="block text-xs font-medium text-text-label mb-1">{label}</span>
+    <input
+      value={value ?? ""}
+      // Blank optional keys are dropped rather than exported as ""
+      onChange={(e) => onChange(e.target.value.trim() ? e.target.value : undefined)}
+      placeholder={placeholder}
+      className={`form-input h-10 text-sm ${mono ? "font-mono" : ""}`}
+    />
+  </label>
+);
+
+// Ids follow the name until the admin edits them, so most never need typing
+const renamed = <T extends { id: string; name: string }>(item: T, name: string): T => ({
+  ...item,
+  name,
+  id: item.id === slugify(item.name) ? slugify(name) : item.id,
+});
+
+const withoutEmpty = <T,>(list: T[]) => (list.length ? list : undefined);
+
+/** Offices with their teams, and the agents who can pick themselves on the form. */
+const AgentRosterEditor: React.FC<AgentRosterEditorProps> = ({ agents = [], offices = [], onChange }) => {
+  const setOffices = (next: BrokerageOffice[]) => onChange({ offices: withoutEmpty(next) });
+  const setAgents = (next: AgentRosterEntry[]) => onChange({ agents: withoutEmpty(next) });
+
+  const updateOffice = (index: number, patch: Partial<BrokerageOffice>) =>
+    setOffices(offices.map((office, i) => (i === index ? { ...office, ...patch } : office)));
+  const updateTeams = (index: number, teams: BrokerageTeam[]) => updateOffice(index, { teams: withoutEmpty(teams) });
+  const updateAgent = (index: number, patch: Partial<AgentRosterEntry>) =>
+    setAgents(agents.map((agent, i) => (i === index ? { ...agent, ...patch } : agent)));
+
+  const removeOffice = (index: number) => {
+    const { id } = offices[index];
+    // Agents keep their profile but lose the placement that pointed at it
+    onChange({
+      offices: withoutEmpty(offices.filter((_, i) => i !== index)),
+      agents: withoutEmpty(
+        agents.map((agent) => (agent.office === id ? { ...agent, office: undefined, team: undefined } : agent)),
+      ),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-foreground">Offices & teams</h3>
+        {offices.map((office, index) => (
+          <div key={index} className="rounded-lg border border-input p-3 space-y-3">
+            <div className="grid gap-3 sm:grid-cols-[1fr_1fr_auto] items-end">
+              <TextInput
+                label="Office"
+                value={office.name}
+                onChange={(name) => updateOffice(index, renamed(office, name ?? ""))}
+              />
+              <TextInput label="Id" value={office.id} onChange={(id) => updateOffice(index, { id: id ?? "" })} mono />
+              <button
+                type="button"
+                aria-label={`Remove ${office.name || "office"}`}
+                onClick={() => removeOffice(index)}
+                className={iconButton}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-3">
+              <TextInput
+                label="Routing email (CC'd)"
+                value={office.routingEmail}
+                onChange={(routingEmail) => updateOffice(index, { routingEmail })}
+              />
+              <TextInput label="Phone" value={office.phone} onChange={(phone) => updateOffice(index, { phone })} />
+              <TextInput
+                label="Address"
+                value={office.address}
+                onChange={(address) => updateOffice(index, { address })}
+              />
+            </div>
+            <div className="space-y-2 pl-3 border-l-2 border-input">
+              {(office.teams ?? []).map((team, teamIndex) => {
+                const teams = office.teams ?? [];
+                const updateTeam = (patch: Partial<BrokerageTeam>) =>
+                  updateTeams(index, teams.map((other, i) => (i === teamIndex ? { ...other, ...patch } : other)));
+                return (
+                  <div key={teamIndex} className="grid gap-3 sm:grid-cols-[1fr_1fr_1fr_auto] items-end">
+                    <TextInput
+                      label="Team"
+                      value={team.name}
+                      onChange={(name) => updateTeam(renamed(team, name ?? ""))}
+                    />
+                    <TextInput label="Id" value={team.id} onChange={(id) => updateTeam({ id: id ?? "" })} mono />
+                    <TextInput
+                      label="Team lead email (CC'd)"
+                      value={team.leadEmail}
+                      onChange={(leadEmail) => updateTeam({ leadEmail })}
+                    />
+                    <button
+                      type="button"
+                      aria-label={`Remove ${team.name || "team"}`}
+                      onClick={() => updateTeams(index, teams.filter((_, i) => i !== teamIndex))}
+                      className={iconButton}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+              <button
+                type="button"
+                onClick={() => updateTeams(index, [...(office.teams ?? []), { id: "", name: "" }])}
+                className={addButton}
+              >
+                <Plus className="w-4 h-4" />
+                Add team
+              </button>
+            </div>
+          </div>
+        ))}
+        <button type="button" onClick={() => setOffices([...offices, { id: "", name: "" }])} className={addButton}>
+          <Plus className="w-4 h-4" />
+          Add office
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-foreground">Agents</h3>
+        {agents.map((agent, index) => {
+          const office = offices.find((candidate) => candidate.id === agent.office);
+          return (
+            <div key={index} className="rounded-lg border border-input p-3 space-y-3">
+              <div className="grid gap-3 sm:grid-cols-[1fr_1fr_auto] items-end">
+                <TextInput
+                  label="Email"
+                  value={agent.email}
+                  onChange={(email) => updateAgent(index, { email: email ?? "" })}
+                />
+                <TextInput label="Name" value={agent.name} onChange={(name) => updateAgent(index, { name })} />
+                <button
+                  type="button"
+                  aria-label={`Remove ${agent.name ?? agent.email ?? "agent"}`}
+                  onClick={() => setAgents(agents.filter((_, i) => i !== index))}
+                  className={iconButton}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="grid gap-3 sm:grid-cols-3">
+                <TextInput label="Title" value={agent.title} onChange={(title) => updateAgent(index, { title })} />
+                <TextInput label="Phone" value={agent.phone} onChange={(phone) => updateAgent(index, { phone })} />
+                <TextInput
+                  label="Headshot URL"
+                  value={agent.headshotUrl}
+                  onChange={(headshotUrl) => updateAgent(index, { headshotUrl })}
+                  placeholder="https://..."
+                />
+              </div>
+              {offices.length > 0 && (
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <label className="block">
+                    <span className="block text-xs font-medium text-text-label mb-1">Office</span>
+                    <select
+                      value={agent.office ?? ""}
+                      onChange={(e) => updateAgent(index, { office: e.target.value || undefined, team: undefined })}
+                      className="form-input h-10 text-sm"
+                    >
+                      <option value="">No office</option>
+                      {offices.map((candidate) => (
+                        <option key={candidate.id} value={candidate.id}>
+                          {candidate.name || candidate.id}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  {!!office?.teams?.length && (
+                    <label className="block">
+                      <span className="block text-xs font-medium text-text-label mb-1">Team</span>
+                      <select
+                        value={agent.team ?? ""}
+                        onChange={(e) => updateAgent(index, { team: e.target.value || undefined })}
+                        className="form-input h-10 text-sm"
+                      >
+                        <option value="">No team</option>
+                        {office.teams.map((team) => (
+                          <option key={team.id} value={team.id}>
+                            {team.name || team.id}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        <button type="button" onClick={() => setAgents([...agents, { email: "" }])} className={addButton}>
+          <Plus className="w-4 h-4" />
+          Add agent
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AgentRosterEditor;
@@ -0,0 +1,355 @@
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { KeyRound, Loader2 } from "lucide-react";
+import AgentRosterEditor from "@/components/AgentRosterEditor";
+import OptionOverridesEditor from "@/components/OptionOverridesEditor";
+import RegionEditor from "@/components/RegionEditor";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { BrokerageBranding, BrokerageConfig, SignInMethod } from "@/config/brokerages";
+import { signInMethods } from "@/lib/agentSignIn";
+import { isGuessablePin } from "@/lib/brokerageLint";
+import { PIN_LENGTH, hashPin } from "@/lib/pinAuth";
+import { slugify } from "@/lib/registryDraft";
+
+interface BrokerageEditorProps {
+  config: BrokerageConfig;
+  /** Slug in the published registry; unset for a brokerage that hasn't shipped yet */
+  publishedSlug?: string;
+  onChange: (config: BrokerageConfig) => void;
+}
+
+const Section: React.FC<{ title: string; description?: string; children: React.ReactNode }> = ({
+  title,
+  description,
+  children,
+}) => (
+  <section className="bg-card rounded-xl shadow-lg p-6 space-y-4">
+    <div>
+      <h2 className="font-heading font-semibold text-lg text-foreground">{title}</h2>
+      {description && <p className="text-sm text-text-tertiary mt-1">{description}</p>}
+    </div>
+    {children}
+  </section>
+);
+
+const Field: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <label className="block">
+    <span className="block text-sm font-medium text-text-label mb-2">{label}</span>
+    {children}
+    {hint && <span className="block text-xs text-text-tertiary mt-1.5">{hint}</span>}
+  </label>
+);
+
+const SIGN_IN_CHOICES: { label: string; methods: SignInMethod[] }[] = [
+  { label: "PIN", methods: ["pin"] },
+  { label: "Emailed code", methods: ["email"] },
+  { label: "Either", methods: ["pin", "email"] },
+];
+
+const ColorField: React.FC<{ label: string; value?: string; onChange: (value: string | undefined) => void }> = ({
+  label,
+  value,
+  onChange,
+}) => (
+  <Field label={label}>
+    <div className="flex gap-2">
+      <input
+        type="color"
+        value={/^#[0-9a-f]{6}$/i.test(value ?? "") ? value : "#365989"}
+        onChange={(e) => onChange(e.target.value)}
+        aria-label={`${label} picker`}
+        className="h-12 w-14 shrink-0 rounded-md border border-input bg-card p-1"
+      />
+      <input
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value.trim() || undefined)}
+        placeholder="Default"
+        className="form-input font-mono"
+      />
+    </div>
+  </Field>
+);
+
+/**
+ * Local stand-in for the PIN verifier. PINs are salted with the slug, so a
+ * new hash is made for whatever slug is current.
+ */
+const PinRotation: React.FC<{ config: BrokerageConfig; onRotated: (pinHash: string) => void }> = ({
+  config,
+  onRotated,
+}) => {
+  const [pin, setPin] = useState("");
+  const [isHashing, setIsHashing] = useState(false);
+  const [error, setError] = useState("");
+
+  const rotate = async () => {
+    if (isGuessablePin(pin)) {
+      setError("That PIN is one of the first anyone would try. Pick another.");
+      return;
+    }
+    setIsHashing(true);
+    setError("");
+    try {
+      onRotated(await hashPin(config.slug, pin));
+      setPin("");
+      toast.success("PIN hash updated", { description: "Use the exported registry locally; it won't pass validation." });
+    } finally {
+      setIsHashing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <span className="block text-sm font-medium text-text-label">Local PIN hash (development only)</span>
+        <p className="text-xs text-text-tertiary mt-1">
+          Checked in the browser against a hash anyone can read, so it keeps no one out. validate:brokerages
+          refuses it; set a verifier for any registry that ships.
+        </p>
+      </div>
+      <p className="text-sm text-text-secondary">
+        {config.pinHash ? "A local PIN hash is set. Enter a new PIN to replace it." : "No local PIN hash is set."}
+      </p>
+      <div className="flex flex-wrap items-center gap-3">
+        <InputOTP maxLength={PIN_LENGTH} value={pin} onChange={setPin} inputMode="numeric" pattern="^[0-9]+$">
+          <InputOTPGroup>
+            {Array.from({ length: PIN_LENGTH }).map((_, i) => (
+              <InputOTPSlot key={i} index={i} className="h-11 w-11" />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+        <button
+          type="button"
+          onClick={rotate}
+          disabled={pin.length !== PIN_LENGTH || !config.slug || isHashing}
+          className="inline-flex items-center gap-2 h-11 px-4 rounded-md border border-input text-sm font-medium text-text-secondary hover:bg-muted disabled:opacity-50"
+        >
+          {isHashing ? <Loader2 className="w-4 h-4 animate-spin" /> : <KeyRound className="w-4 h-4" />}
+          {config.pinHash ? "Replace hash" : "Set hash"}
+        </button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+};
+
+/** Form for one brokerage in the admin console; every change is reported up immediately. */
+const BrokerageEditor: React.FC<BrokerageEditorProps> = ({ config, publishedSlug, onChange }) => {
+  const [aliasText, setAliasText] = useState(() => (config.aliases ?? []).join(", "));
+  const [pinClearedBySlug, setPinClearedBySlug] = useState(false);
+  const [domainText, setDomainText] = useState(() => (config.agentEmailDomains ?? []).join(", "));
+  const branding = config.branding ?? {};
+
+  const update = (patch: Partial<BrokerageConfig>) => onChange({ ...config, ...patch });
+  const updateBranding = (patch: Partial<BrokerageBranding>) => {
+    const next = Object.fromEntries(
+      Object.entries({ ...branding, ...patch }).filter(([, value]) => value !== undefined),
+    );
+    update({ branding: Object.keys(next).length ? next : undefined });
+  };
+
+  const setSlug = (slug: string) => {
+    // The old hash was salted with the old slug and would never match again
+    if (config.pinHash) setPinClearedBySlug(true);
+    update({ slug, pinHash: undefined });
+  };
+
+  const setAliases = (text: string) => {
+    setAliasText(text);
+    const aliases = text
+      .split(/[\s,]+/)
+      .map((alias) => alias.trim())
+      .filter(Boolean);
+    update({ aliases: aliases.length ? aliases : undefined });
+  };
+
+  const setDomains = (text: string) => {
+    setDomainText(text);
+    const domains = text
+      .split(/[\s,]+/)
+      .map((domain) => domain.replace(/^@/, "").toLowerCase())
+      .filter(Boolean);
+    update({ agentEmailDomains: domains.length ? domains : undefined });
+  };
+
+  const movedFromPublished = !!publishedSlug && config.slug !== publishedSlug;
+  const keepsOldLinks = config.aliases?.includes(publishedSlug ?? "");
+
+  return (
+    <div className="space-y-6">
+      <Section title="Basics">
+        <Field label="Name">
+          <input value={config.name} onChange={(e) => update({ name: e.target.value })} className="form-input" />
+        </Field>
+        <Field label="Slug" hint={`Agents open /${config.slug || "<slug>"}; it is also the payload's brokerage_slug.`}>
+          <div className="flex gap-2">
+            <input
+              value={config.slug}
+              onChange={(e) => setSlug(e.target.value.toLowerCase())}
+              className="form-input font-mono"
+            />
+            {!publishedSlug && config.slug !== slugify(config.name) && (
+              <button
+                type="button"
+                onClick={() => setSlug(slugify(config.name))}
+                className="shrink-0 px-3 rounded-md border border-input text-sm font-medium text-text-secondary hover:bg-muted"
+              >
+                From name
+              </button>
+            )}
+          </div>
+        </Field>
+        {movedFromPublished && !keepsOldLinks && (
+          <div className="rounded-lg border border-amber-500/50 bg-amber-50 dark:bg-amber-950/20 p-3 text-sm text-amber-800 dark:text-amber-200">
+            Links to /{publishedSlug} will stop working.{" "}
+            <button
+              type="button"
+              onClick={() => setAliases([...(config.aliases ?? []), publishedSlug].join(", "))}
+              className="font-medium underline"
+            >
+              Keep it as an alias
+            </button>
+          </div>
+        )}
+        <Field label="Aliases" hint="Old or short slugs that redirect here, separated by commas.">
+          <input value={aliasText} onChange={(e) => setAliases(e.target.value)} className="form-input font-mono" />
+        </Field>
+        <div>
+          <span className="block text-sm font-medium text-text-label mb-2">Layout</span>
+          <div className="flex gap-2">
+            {(["scroll", "wizard"] as const).map((layout) => (
+              <button
+                key={layout}
+                type="button"
+                onClick={() => update({ layout: layout === "scroll" ? undefined : layout })}
+                className={`btn-group-item ${(config.layout ?? "scroll") === layout ? "btn-group-item-selected" : ""}`}
+              >
+                {layout === "scroll" ? "Single page" : "Step by step"}
+              </button>
+            ))}
+          </div>
+        </div>
+      </Section>
+
+      <Section title="Logo & Colours">
+        <Field label="Logo URL">
+          <input
+            value={config.logoUrl}
+            onChange={(e) => update({ logoUrl: e.target.value.trim() })}
+            placeholder="https://..."
+            className="form-input"
+          />
+        </Field>
+        {config.logoUrl && (
+          <img
+            src={config.logoUrl}
+            alt={`${config.name} logo`}
+            className="max-h-16 rounded border border-input bg-background p-2"
+            style={{ maxWidth: `${branding.logoMaxWidth ?? 300}px`, objectFit: "contain" }}
+          />
+        )}
+        <Field label="Logo max width (px)">
+          <input
+            type="number"
+            min={40}
+            value={branding.logoMaxWidth ?? ""}
+            onChange={(e) => updateBranding({ logoMaxWidth: e.target.value ? Number(e.target.value) : undefined })}
+            placeholder="300"
+            className="form-input"
+          />
+        </Field>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <ColorField
+            label="Primary colour"
+            value={branding.primaryColor}
+            onChange={(primaryColor) => updateBranding({ primaryColor })}
+          />
+          <ColorField
+            label="Accent colour"
+            value={branding.accentColor}
+            onChange={(accentColor) => updateBranding({ accentColor })}
+          />
+        </div>
+      </Section>
+
+      <Section
+        title="Sign-in"
+        description="How agents unlock the form. Emailed codes tie each guide to the agent who sent it."
+      >
+        <div className="flex flex-wrap gap-2">
+          {SIGN_IN_CHOICES.map(({ label, methods }) => (
+            <button
+              key={label}
+              type="button"
+              // PIN-only is the default, so it's left out of the config
+              onClick={() => update({ signInMethods: methods.join() === "pin" ? undefined : methods })}
+              className={`btn-group-item ${
+                signInMethods(config).join() === methods.join() ? "btn-group-item-selected" : ""
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {signInMethods(config).includes("pin") && (
+          <>
+            {pinClearedBySlug && !config.pinHash && (
+              <p className="text-sm text-amber-800 dark:text-amber-200">
+                Changing the slug cleared the PIN. Set it again for /{config.slug}.
+              </p>
+            )}
+            <Field
+              label="PIN verifier"
+              hint="Server that checks the PIN and limits wrong guesses. Rotate the PIN there."
+            >
+              <input
+                value={config.pinVerifyUrl ?? ""}
+                onChange={(e) => update({ pinVerifyUrl: e.target.value.trim() || undefined })}
+                placeholder="https://..."
+                className="form-input"
+              />
+            </Field>
+            <PinRotation
+              config={config}
+              onRotated={(pinHash) => {
+                setPinClearedBySlug(false);
+                update({ pinHash });
+              }}
+            />
+          </>
+        )}
+      </Section>
+
+      <Section
+        title="Agents"
+        description="Who can send guides and where they're routed. With no domains or agents, any address is accepted."
+      >
+        <Field label="Email domains" hint="Any address at these domains is accepted, separated by commas.">
+          <input
+            value={domainText}
+            onChange={(e) => setDomains(e.target.value)}
+            placeholder="dustonleddy.com"
+            className="form-input font-mono"
+          />
+        </Field>
+        <AgentRosterEditor agents={config.agents} offices={config.offices} onChange={update} />
+      </Section>
+
+      <Section title="Regions" description="What agents choose from for the buyer's target area.">
+        <RegionEditor regions={config.regions} onChange={(regions) => update({ regions })} />
+      </Section>
+
+      <Section
+        title="Options"
+        description="Hide, rename or add choices on the shared form. Leave a label blank to keep the default wording."
+      >
+        <OptionOverridesEditor
+          overrides={config.fieldOverrides}
+          onChange={(fieldOverrides) => update({ fieldOverrides })}
+        />
+      </Section>
+    </div>
+  );
+};
+
+export default BrokerageEditor;
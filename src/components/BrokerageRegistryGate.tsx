@@ -0,0 +1,107 @@
+import React, { useEffect } from "react";
+import { Helmet } from "react-helmet-async";
+import { AlertTriangle, Loader2, RotateCw } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { BrokerageConfig } from "@/config/brokerages";
+import { useBrokerageRegistry } from "@/hooks/use-brokerage-registry";
+import { BrokerageRegistryError } from "@/lib/brokerageRegistry";
+
+interface BrokerageRegistryGateProps {
+  children: (registry: BrokerageConfig[]) => React.ReactNode;
+}
+
+const RegistrySkeleton = () => (
+  <div className="min-h-screen bg-background py-12 px-4 md:px-6" aria-busy="true" aria-label="Loading brokerages">
+    <div className="w-full max-w-[600px] mx-auto">
+      <div className="flex flex-col items-center mb-8">
+        <Skeleton className="w-40 h-12 mb-6" />
+        <Skeleton className="w-72 max-w-full h-8 mb-3" />
+        <Skeleton className="w-56 max-w-full h-4" />
+      </div>
+      <div className="bg-card rounded-xl shadow-lg p-6 md:p-8 space-y-3">
+        <Skeleton className="h-12" />
+        {[0, 1, 2].map((row) => (
+          <div key={row} className="flex items-center gap-4 rounded-lg border-2 border-input p-4">
+            <Skeleton className="w-20 h-10 shrink-0" />
+            <div className="flex-1 space-y-2">
+              <Skeleton className="h-4 w-3/4" />
+              <Skeleton className="h-3 w-1/3" />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+const RegistryError: React.FC<{ error: Error; isRetrying: boolean; onRetry: () => void }> = ({
+  error,
+  isRetrying,
+  onRetry,
+}) => {
+  const issues = error instanceof BrokerageRegistryError ? error.issues : [];
+  const isMalformed = error instanceof BrokerageRegistryError;
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <Helmet>
+        <title>Brokerage Settings Unavailable</title>
+      </Helmet>
+      <div className="w-full max-w-[560px] bg-card rounded-xl shadow-lg p-8 animate-fade-in">
+        <div className="w-12 h-12 mx-auto mb-4 rounded-full bg-destructive/10 flex items-center justify-center">
+          <AlertTriangle className="w-5 h-5 text-destructive" />
+        </div>
+        <h1 className="font-heading font-semibold text-2xl text-foreground mb-2 text-center">
+          {isMalformed ? "Brokerage Settings Need Fixing" : "Couldn't Load Brokerages"}
+        </h1>
+        <p className="text-text-tertiary text-sm mb-6 text-center">
+          {isMalformed
+            ? "The brokerage registry has errors, so the intake form can't start. Send these details to your admin."
+            : "Check your connection and try again. If it keeps happening, let your admin know."}
+        </p>
+
+        {issues.length > 0 && (
+          <ul className="mb-6 max-h-64 overflow-y-auto rounded-lg bg-muted p-4 space-y-1.5 font-mono text-xs text-text-secondary">
+            {issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        )}
+        {isMalformed && issues.length === 0 && (
+          <p className="mb-6 rounded-lg bg-muted p-4 font-mono text-xs text-text-secondary">{error.message}</p>
+        )}
+
+        <button
+          type="button"
+          onClick={onRetry}
+          disabled={isRetrying}
+          className="w-full h-12 inline-flex items-center justify-center gap-2 rounded-lg bg-primary text-primary-foreground font-medium hover:bg-primary/90 disabled:opacity-70"
+        >
+          {isRetrying ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCw className="w-4 h-4" />}
+          Try Again
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/** Renders its children once the brokerage registry has loaded and passed validation. */
+const BrokerageRegistryGate: React.FC<BrokerageRegistryGateProps> = ({ children }) => {
+  const { data: registry, error, isFetching, refetch } = useBrokerageRegistry();
+  const hasRegistry = !!registry;
+
+  useEffect(() => {
+    // A bad refresh keeps the last good registry on screen, so log what went wrong
+    if (error && hasRegistry) console.error("Brokerage registry refresh failed:", error);
+  }, [error, hasRegistry]);
+
+  if (registry) {
+    return <>{children(registry)}</>;
+  }
+  if (error) {
+    return <RegistryError error={error} isRetrying={isFetching} onRetry={() => refetch()} />;
+  }
+  return <RegistrySkeleton />;
+};
+
+export default BrokerageRegistryGate;
@@ -1,131 +1,161 @@
-import React, { useState, useEffect } from "react";
-import { useForm, Controller } from "react-hook-form";
+import React, { useState, useEffect, useMemo } from "react";
+import { FieldErrors, Resolver, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
-import { Check, Loader2, Home, Building2, Building, Sparkles, Briefcase, Laptop, Monitor, Palmtree, TreePine, MapPin, HomeIcon, Zap } from "lucide-react";
-import { Slider } from "@/components/ui/slider";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Link } from "react-router-dom";
+import { Check, ChevronLeft, ChevronRight, FileClock, History, Loader2, X } from "lucide-react";
+import FormFieldControl from "@/components/FormFieldControl";
+import GuideReview from "@/components/GuideReview";
+import { Progress } from "@/components/ui/progress";
 import { BrokerageConfig } from "@/config/brokerages";
-
-// Determine webhook URL based on environment
-const getWebhookUrl = () => {
-  const hostname = window.location.hostname;
-  if (hostname === "app.oliza.ai") {
-    return "https://sparkevolution.app.n8n.cloud/webhook/buyer-guide-intake-prod";
-  }
-  // dev.oliza.ai, localhost, or any other hostname uses dev endpoint
-  return "https://sparkevolution.app.n8n.cloud/webhook/buyer-guide-intake-dev";
-};
-
-const WEBHOOK_URL = getWebhookUrl();
-
-// Form validation schema
-const formSchema = z.object({
-  agentEmail: z.string().email("Please enter a valid email address"),
-  buyerName: z.string().min(1, "Buyer's name is required"),
-  buyerSituation: z.string().min(1, "Please select a situation"),
-  currentHome: z.string().max(300, "Maximum 300 characters").optional(),
-  state: z.string().optional(),
-  targetAreaPrimary: z.string().min(1, "Please select a region"),
-  targetAreaSpecific: z.string().max(100, "Maximum 100 characters").optional(),
-  commuteDestination: z.string().max(100, "Maximum 100 characters").optional(),
-  budgetRange: z.array(z.number()).length(2),
-  timeline: z.string().min(1, "Please select a timeline"),
-  bedrooms: z.string().min(1, "Please select bedrooms"),
-  bathrooms: z.string().min(1, "Please select bathrooms"),
-  propertyTypes: z.array(z.string()).min(1, "Select at least one property type"),
-  topPriority: z.string().min(1, "Please select a top priority"),
-  workSituation: z.string().min(1, "Please select work arrangement"),
-  hasChildren: z.boolean(),
-  lifestyleFocus: z.string().min(1, "Please select a lifestyle priority"),
-  agentInsights: z.string().min(200, "Please provide at least 200 characters").max(1200, "Maximum 1200 characters"),
-});
-
-type FormData = z.infer<typeof formSchema>;
-
-
-
-// Helper to format budget
-const formatBudget = (value: number): string => {
-  if (value >= 1000000) {
-    const millions = value / 1000000;
-    return millions % 1 === 0 ? `$${millions}M` : `$${millions.toFixed(1)}M`;
-  }
-  return `$${value / 1000}K`;
-};
-
-// Budget steps: $25K from $250K-$1M, $50K from $1M-$2M, $100K from $2M-$5M, $250K from $5M-$10M
-const budgetSteps = [
-  // $250K - $1M in $25K increments
-  250000, 275000, 300000, 325000, 350000, 375000, 400000, 425000, 450000, 475000,
-  500000, 525000, 550000, 575000, 600000, 625000, 650000, 675000, 700000, 725000,
-  750000, 775000, 800000, 825000, 850000, 875000, 900000, 925000, 950000, 975000, 1000000,
-  // $1M - $2M in $50K increments
-  1050000, 1100000, 1150000, 1200000, 1250000, 1300000, 1350000, 1400000, 1450000, 1500000,
-  1550000, 1600000, 1650000, 1700000, 1750000, 1800000, 1850000, 1900000, 1950000, 2000000,
-  // $2M - $5M in $100K increments
-  2100000, 2200000, 2300000, 2400000, 2500000, 2600000, 2700000, 2800000, 2900000, 3000000,
-  3100000, 3200000, 3300000, 3400000, 3500000, 3600000, 3700000, 3800000, 3900000, 4000000,
-  4100000, 4200000, 4300000, 4400000, 4500000, 4600000, 4700000, 4800000, 4900000, 5000000,
-  // $5M - $10M in $250K increments
-  5250000, 5500000, 5750000, 6000000, 6250000, 6500000, 6750000, 7000000, 7250000, 7500000,
-  7750000, 8000000, 8250000, 8500000, 8750000, 9000000, 9250000, 9500000, 9750000, 10000000
-];
+import { resolveWebhookUrl } from "@/config/environment";
+import { FORM_SCHEMA_VERSION, FieldDefinition, formSections, wizardSteps } from "@/config/formFields";
+import {
+  AGENT_EMAIL_FIELD,
+  GuideRecipient,
+  buildAgentPayload,
+  findRosterAgent,
+  forgetAgent,
+  guideRecipients,
+  loadRememberedAgents,
+  rememberAgent,
+} from "@/lib/agentIdentity";
+import { resolveFormFields } from "@/lib/fieldOverrides";
+import { IntakeSession, isSessionValid } from "@/lib/pinAuth";
+import DraftsDrawer from "@/components/DraftsDrawer";
+import { useFormDrafts } from "@/hooks/use-form-drafts";
+import { draftDisplayName } from "@/lib/drafts";
+import PendingSubmissions from "@/components/PendingSubmissions";
+import { enqueueSubmission, subscribeToQueue } from "@/lib/submissionQueue";
+import { recordSubmission } from "@/lib/submissionHistory";
+import { postGuide } from "@/lib/submitGuide";
+import {
+  FormValues,
+  buildDefaultValues,
+  buildFieldPayload,
+  buildConsentRecord,
+  buildFormSchema,
+  buildOptionLabels,
+  buildStepSchema,
+  describePayloadValue,
+  fieldSummaryLabels,
+  isFieldActive,
+} from "@/lib/formSchema";
 
 interface BuyerGuideFormProps {
   brokerage: BrokerageConfig;
+  session?: IntakeSession;
+  /** Called instead of submitting when the PIN session has run out */
+  onSessionExpired?: () => void;
+  /** Ends an email sign-in so another agent can use this device */
+  onSignOut?: () => void;
+  /** Admin preview: no drafts, history or queue, and submitting only shows the success screen */
+  preview?: boolean;
 }
 
-const BuyerGuideForm: React.FC<BuyerGuideFormProps> = ({ brokerage }) => {
-  const isGroupedRegions = !Array.isArray(brokerage.regions);
-  const groupedRegions = isGroupedRegions
-    ? (brokerage.regions as Record<string, string[]>)
-    : null;
-  const flatRegions = Array.isArray(brokerage.regions)
-    ? brokerage.regions
-    : null;
+const BuyerGuideForm: React.FC<BuyerGuideFormProps> = ({
+  brokerage,
+  session,
+  onSessionExpired,
+  onSignOut,
+  preview = false,
+}) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [submittedEmail, setSubmittedEmail] = useState("");
+  const [submittedRecipients, setSubmittedRecipients] = useState<GuideRecipient[]>([]);
   const [submitError, setSubmitError] = useState("");
+  const [wasQueued, setWasQueued] = useState(false);
   const errorRef = React.useRef<HTMLDivElement>(null);
+  const submittingRef = React.useRef(false);
+
+  // Email sign-in proves who the agent is, so their address is fixed for the session
+  const verifiedEmail = session?.agentEmail;
+
+  // Shared field definitions with this brokerage's option overrides applied
+  const formFields = useMemo(
+    () =>
+      resolveFormFields(brokerage).map((field) =>
+        verifiedEmail && field.name === AGENT_EMAIL_FIELD && field.type === "email"
+          ? { ...field, readOnly: true, helpText: "Verified when you signed in." }
+          : field,
+      ),
+    [brokerage, verifiedEmail],
+  );
+  const formSchema = useMemo(() => buildFormSchema(formFields), [formFields]);
+  const fieldDefaults = useMemo(() => buildDefaultValues(formFields), [formFields]);
+  // Agents who submitted from this device; the most recent one is prefilled
+  const [rememberedAgents, setRememberedAgents] = useState(() => (preview ? [] : loadRememberedAgents(brokerage)));
+  const defaultValues = useMemo(
+    () => ({
+      ...fieldDefaults,
+      [AGENT_EMAIL_FIELD]: verifiedEmail ?? rememberedAgents[0] ?? fieldDefaults[AGENT_EMAIL_FIELD],
+    }),
+    [fieldDefaults, rememberedAgents, verifiedEmail],
+  );
+  const webhookUrl = resolveWebhookUrl(brokerage);
 
-  const defaultValues: FormData = {
-    agentEmail: "",
-    buyerName: "",
-    buyerSituation: "First-Time Buyer",
-    currentHome: "",
-    state: "",
-    targetAreaPrimary: "",
-    targetAreaSpecific: "",
-    commuteDestination: "",
-    budgetRange: [2, 14],
-    timeline: "3-6",
-    bedrooms: "3",
-    bathrooms: "2",
-    propertyTypes: ["single-family"],
-    topPriority: "schools",
-    workSituation: "hybrid",
-    hasChildren: false,
-    lifestyleFocus: "suburban",
-    agentInsights: "",
-  };
+  const isWizard = brokerage.layout === "wizard";
+  const stepSchemas = useMemo(
+    () => wizardSteps.map((step) => buildStepSchema(step, formFields)),
+    [formFields],
+  );
+  const [stepIndex, setStepIndex] = useState(0);
+  // Both layouts end on a review step: the scroll layout is a single step followed by it
+  const reviewStepIndex = isWizard ? wizardSteps.length : 1;
+  const isReviewStep = stepIndex === reviewStepIndex;
+  const focusFieldRef = React.useRef<string | null>(null);
+
+  // Wizard steps validate against their own sub-schema; the review step and scroll layout use the full one
+  const activeSchemaRef = React.useRef(formSchema);
+  activeSchemaRef.current = isWizard && !isReviewStep ? stepSchemas[stepIndex] : formSchema;
+  const resolver = useMemo<Resolver<FormValues>>(
+    () => (values, context, options) => zodResolver(activeSchemaRef.current)(values, context, options),
+    [],
+  );
 
+  const form = useForm<FormValues>({
+    resolver,
+    defaultValues,
+  });
   const {
-    register,
     handleSubmit,
-    control,
     watch,
     setValue,
-    reset,
     formState: { errors },
-  } = useForm<FormData>({
-    resolver: zodResolver(formSchema),
-    defaultValues,
-  });
+  } = form;
+
+  const drafts = useFormDrafts(brokerage.slug, form, defaultValues, !preview);
+  const { pendingDraft, refresh: refreshDrafts } = drafts;
+
+  // A queued guide that finally sends deletes its draft; keep the drawer in sync
+  useEffect(
+    () =>
+      subscribeToQueue((event) => {
+        if (event.type === "settled") refreshDrafts();
+      }),
+    [refreshDrafts],
+  );
 
   const watchedValues = watch();
 
+  // Restored drafts can carry another address; a verified session always wins
+  const watchedAgentEmail = watchedValues[AGENT_EMAIL_FIELD];
+  useEffect(() => {
+    if (verifiedEmail && watchedAgentEmail !== verifiedEmail) {
+      setValue(AGENT_EMAIL_FIELD, verifiedEmail);
+    }
+  }, [verifiedEmail, watchedAgentEmail, setValue]);
+
+  // Fields hidden by their condition go back to their defaults, so nothing half-typed lingers
+  useEffect(() => {
+    for (const field of formFields) {
+      const defaultValue = fieldDefaults[field.name];
+      const isStale = JSON.stringify(watchedValues[field.name]) !== JSON.stringify(defaultValue);
+      if (isStale && !isFieldActive(field, watchedValues)) {
+        setValue(field.name, defaultValue);
+      }
+    }
+  }, [formFields, fieldDefaults, watchedValues, setValue]);
 
   // Clear error when user edits any field (use serialized comparison to avoid clearing on re-render)
   const watchedSerialized = JSON.stringify(watchedValues);
@@ -147,76 +177,184 @@ const BuyerGuideForm: React.FC<BuyerGuideFormProps> = ({ brokerage }) => {
     }
   }, [submitError, errorsCount]);
 
-  const onSubmit = async (data: FormData) => {
+  // Fields of the step being left are unmounted, so focusing waits for the new step to render
+  useEffect(() => {
+    const name = focusFieldRef.current;
+    if (!name) return;
+    focusFieldRef.current = null;
+    form.setFocus(name);
+    document.getElementById(`field-${name}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [stepIndex, form]);
+
+  // The field part of the payload; the review renders the same object that gets sent
+  const buildGuideFields = (values: FormValues) => ({
+    ...buildFieldPayload(values, formFields, brokerage),
+    option_labels: buildOptionLabels(values, formFields),
+  });
+
+  // Only a recorded consent lets the guide go to the buyer
+  const buildRecipients = (values: FormValues, consentRecord: ReturnType<typeof buildConsentRecord>) =>
+    guideRecipients(
+      brokerage,
+      values.agentEmail as string,
+      values.additionalRecipients as string[],
+      consentRecord
+        ? {
+            email: values.buyerEmail as string,
+            role: values.guideDelivery === "agent-then-buyer" ? "Buyer, after your copy" : "Buyer",
+          }
+        : undefined,
+    );
+
+  const goToStep = (index: number) => {
+    setStepIndex(index);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const stepIndexOfField = (name: string) => {
+    const field = formFields.find((candidate) => candidate.name === name);
+    return isWizard ? wizardSteps.findIndex((step) => !!field && step.sections.includes(field.section)) : 0;
+  };
+
+  /** Leaves the review for the step holding `name` and brings that field into view. */
+  const editField = (name: string) => {
+    focusFieldRef.current = name;
+    setStepIndex(stepIndexOfField(name));
+  };
+
+  const goNext = handleSubmit(() => goToStep(stepIndex + 1));
+
+  // A full-schema failure on the review step sends the agent back to the first step with an error
+  const onInvalid = (fieldErrors: FieldErrors<FormValues>) => {
+    if (!isWizard) return goToStep(0);
+    const index = wizardSteps.findIndex((step) =>
+      formFields.some(
+        (field) =>
+          step.sections.includes(field.section) &&
+          (fieldErrors[field.name] || (field.type === "region" && fieldErrors[field.stateField.name])),
+      ),
+    );
+    if (index >= 0) goToStep(index);
+  };
+
+  // Returns the defaults for the next guide, which start from the agent who just sent one
+  const rememberSubmitter = (email: string) => {
+    rememberAgent(brokerage.slug, email);
+    const agents = loadRememberedAgents(brokerage);
+    setRememberedAgents(agents);
+    return { ...fieldDefaults, [AGENT_EMAIL_FIELD]: verifiedEmail ?? agents[0] ?? fieldDefaults[AGENT_EMAIL_FIELD] };
+  };
+
+  const switchAgent = (email: string) =>
+    setValue(AGENT_EMAIL_FIELD, email, { shouldDirty: true, shouldValidate: true });
+
+  const forgetRememberedAgent = (email: string) => {
+    forgetAgent(brokerage.slug, email);
+    setRememberedAgents(loadRememberedAgents(brokerage));
+  };
+
+  const onSubmit = async (data: FormValues) => {
+    // Guards against a double-click landing before isSubmitting re-renders the button
+    if (submittingRef.current) return;
+    const consentRecord = buildConsentRecord(data, data.agentEmail as string, formFields);
+    const recipients = buildRecipients(data, consentRecord);
+    if (preview) {
+      setSubmittedEmail(data.agentEmail as string);
+      setSubmittedRecipients(recipients);
+      setWasQueued(false);
+      setIsSuccess(true);
+      return;
+    }
+    if (!isSessionValid(session)) {
+      onSessionExpired?.();
+      return;
+    }
+
+    submittingRef.current = true;
     setIsSubmitting(true);
     setSubmitError("");
-    setSubmittedEmail(data.agentEmail);
-
-    // Convert budget indices to actual values
-    const minBudget = budgetSteps[data.budgetRange[0]];
-    const maxBudget = budgetSteps[data.budgetRange[1]];
+    setSubmittedEmail(data.agentEmail as string);
+    setSubmittedRecipients(recipients);
 
+    const submissionId = drafts.ensureActiveDraftId();
     const payload = {
+      submission_id: submissionId,
+      form_schema_version: FORM_SCHEMA_VERSION,
       brokerage_slug: brokerage.slug,
-      intake_pin: brokerage.pin,
-      agent_email: data.agentEmail,
-      buyer_name: data.buyerName,
-      buyer_situation: data.buyerSituation,
-      current_home: data.currentHome || "",
-      state: data.state,
-      primary_search_area: data.targetAreaPrimary,
-      specific_location_notes: data.targetAreaSpecific || "",
-      commute_destination: data.commuteDestination || "",
-      budget_min: minBudget,
-      budget_max: maxBudget,
-      timeline: data.timeline,
-      bedrooms: data.bedrooms,
-      bathrooms: data.bathrooms,
-      property_types: data.propertyTypes,
-      top_priority: data.topPriority,
-      work_situation: data.workSituation,
-      has_children: data.hasChildren,
-      lifestyle_focus: data.lifestyleFocus,
-      agent_insights: data.agentInsights,
+      intake_token: session.token,
+      verified_agent_email: session.agentEmail,
+      ...buildAgentPayload(brokerage, data.agentEmail as string),
+      buyer_consent: consentRecord,
+      ...buildGuideFields(data),
+    };
+
+    const queueEntry = {
+      id: submissionId,
+      brokerageSlug: brokerage.slug,
+      url: webhookUrl,
+      payload,
+      signingKey: session.signingKey,
+      buyerName: data.buyerName as string,
+      agentEmail: data.agentEmail as string,
+    };
+    const describe = (type: FieldDefinition["type"]) => {
+      const field = formFields.find((candidate) => candidate.type === type);
+      return field ? describePayloadValue(field, payload) : "";
+    };
+    const historyEntry = {
+      submissionId,
+      brokerageSlug: brokerage.slug,
+      agentEmail: data.agentEmail as string,
+      buyerName: data.buyerName as string,
+      region: describe("region"),
+      budget: describe("dual-slider"),
+      submittedAt: Date.now(),
+      url: webhookUrl,
+      payload,
+    };
+    // Hand the guide to the offline queue; its draft is only deleted once it sends
+    const queueSubmission = async (lastError?: string) => {
+      const draftId = drafts.detachActiveDraft() ?? undefined;
+      await enqueueSubmission({ ...queueEntry, draftId }, lastError);
+      recordSubmission(historyEntry);
+      drafts.startNextGuide(rememberSubmitter(data.agentEmail as string));
+      setStepIndex(0);
+      setWasQueued(true);
+      setIsSuccess(true);
     };
 
     try {
-      console.log("Submitting to:", WEBHOOK_URL);
-      const response = await fetch(WEBHOOK_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      });
-
-      console.log("Response status:", response.status);
-
-      if (!response.ok) {
-        let errorMessage = "Something went wrong. Please try again.";
-        try {
-          const data = await response.json();
-          if (data?.message) {
-            errorMessage = data.message;
-          }
-        } catch {
-          // Response wasn't JSON, use default message
-          console.log("Response was not JSON");
+      if (!navigator.onLine) {
+        await queueSubmission();
+        return;
+      }
+
+      const result = await postGuide(webhookUrl, payload, submissionId, session.signingKey);
+      if (!result.ok) {
+        if (result.retryable) {
+          await queueSubmission(result.message);
+        } else {
+          drafts.rotateActiveDraftId();
+          setSubmitError(result.message);
         }
-        setSubmitError(errorMessage);
-        setIsSubmitting(false);
         return;
       }
 
       // Success flow
       console.log("Form submitted successfully:", payload);
-      
-      reset(defaultValues);
+
+      drafts.completeActiveDraft();
+      recordSubmission(historyEntry);
+      drafts.startNextGuide(rememberSubmitter(data.agentEmail as string));
+      setStepIndex(0);
+      setWasQueued(false);
       setIsSuccess(true);
     } catch (error) {
-      console.error("Submission failed:", error);
+      // Only reached if IndexedDB is unavailable; the draft is still saved
+      console.error("Could not queue submission:", error);
       setSubmitError("Something went wrong. Please check your connection and try again.");
     } finally {
+      submittingRef.current = false;
       setIsSubmitting(false);
     }
   };
@@ -224,9 +362,21 @@ const BuyerGuideForm: React.FC<BuyerGuideFormProps> = ({ brokerage }) => {
   const handleReset = () => {
     setIsSuccess(false);
     setSubmittedEmail("");
+    setSubmittedRecipients([]);
   };
 
+  const branding = brokerage.branding ?? {};
+  // Stamped again on submit; the review only shows what will be recorded
+  const reviewConsent = isReviewStep
+    ? buildConsentRecord(watchedValues, watchedValues.agentEmail as string, formFields)
+    : null;
+
   if (isSuccess) {
+    const [successBefore, successAfter = ""] = (
+      wasQueued
+        ? "You're offline or our server is busy. We'll keep retrying and email the guide to {email} once it goes through."
+        : branding.successMessage ?? "We'll email the completed guide to {email} in 2-3 minutes."
+    ).split("{email}");
     return (
       <div className="min-h-screen bg-background flex items-center justify-center p-6">
         <div className="w-full max-w-[600px] bg-card rounded-xl shadow-lg p-8 md:p-12 text-center animate-scale-in">
@@ -234,20 +384,44 @@ const BuyerGuideForm: React.FC<BuyerGuideFormProps> = ({ brokerage }) => {
             <Check className="w-8 h-8 text-success animate-check-bounce" />
           </div>
           <h1 className="font-heading font-semibold text-2xl md:text-3xl text-foreground mb-3">
-            Guide is Generating!
+            {wasQueued ? "Guide Queued" : branding.successHeadline ?? "Guide is Generating!"}
           </h1>
           <p className="text-text-secondary text-base md:text-lg mb-8">
-            We'll email the completed guide to{" "}
-            <span className="font-medium text-primary">{submittedEmail}</span>{" "}
-            in 2-3 minutes.
+            {successBefore}
+            <span className="font-medium text-primary">{submittedEmail}</span>
+            {successAfter}
           </p>
-          <button
-            onClick={handleReset}
-            className="px-8 py-3 rounded-lg border-2 border-primary text-primary font-heading font-medium 
-                       hover:bg-primary hover:text-primary-foreground transition-all duration-150"
-          >
-            Generate Another Guide
-          </button>
+          {/* Routing CCs and added recipients; the agent alone is already named above */}
+          {submittedRecipients.length > 1 && (
+            <div className="mb-8 rounded-lg border border-input p-4 text-left">
+              <p className="text-sm font-medium text-text-label mb-2">Everyone who will receive it</p>
+              <ul className="space-y-1.5 text-sm">
+                {submittedRecipients.map((recipient) => (
+                  <li key={recipient.email} className="flex items-baseline justify-between gap-3">
+                    <span className="min-w-0 truncate text-foreground">{recipient.email}</span>
+                    <span className="shrink-0 text-xs text-text-tertiary">{recipient.role}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div className="flex flex-col items-center gap-4">
+            <button
+              onClick={handleReset}
+              className="px-8 py-3 rounded-lg border-2 border-primary text-primary font-heading font-medium 
+                         hover:bg-primary hover:text-primary-foreground transition-all duration-150"
+            >
+              Generate Another Guide
+            </button>
+            {!preview && (
+              <Link
+                to={`/${brokerage.slug}/guides`}
+                className="text-sm font-medium text-text-secondary hover:text-primary"
+              >
+                Track this guide's status
+              </Link>
+            )}
+          </div>
         </div>
       </div>
     );
@@ -256,700 +430,184 @@ const BuyerGuideForm: React.FC<BuyerGuideFormProps> = ({ brokerage }) => {
   return (
     <div className="min-h-screen bg-background py-6 px-4 md:py-12 md:px-6">
       <div className="w-full max-w-[600px] mx-auto">
+        {!preview && (
+          <div className="flex justify-end gap-2 mb-2">
+            <PendingSubmissions />
+            <Link
+              to={`/${brokerage.slug}/guides`}
+              className="inline-flex items-center gap-2 px-3 py-1.5 rounded-md border border-input bg-card text-sm font-medium text-text-secondary hover:bg-muted"
+            >
+              <History className="w-4 h-4" />
+              History
+            </Link>
+            <DraftsDrawer
+              drafts={drafts.drafts}
+              activeDraftId={drafts.activeDraftId}
+              onOpen={(draft) => {
+                drafts.openDraft(draft);
+                setStepIndex(0);
+              }}
+              onNew={() => {
+                drafts.startNewDraft();
+                setStepIndex(0);
+              }}
+              onDuplicate={drafts.duplicate}
+              onRename={drafts.rename}
+              onDelete={drafts.remove}
+            />
+          </div>
+        )}
+
         {/* Header */}
         <div className="text-center mb-8 animate-fade-in">
            <img
             src={brokerage.logoUrl}
             alt={brokerage.name}
             className="mx-auto mb-6"
-            style={{ maxWidth: brokerage.slug === "oliza-real-estate" ? "160px" : "300px", height: "auto", objectFit: "contain" }}
+            style={{ maxWidth: `${branding.logoMaxWidth ?? 300}px`, height: "auto", objectFit: "contain" }}
           />
           <h1 className="font-heading font-semibold text-[28px] md:text-[32px] text-foreground mb-2">
-            Generate Buyer Guide
+            {branding.headline ?? "Generate Buyer Guide"}
           </h1>
           <p className="text-text-tertiary text-base">
-            Get a personalized market presentation for your buyer in under 3 minutes
+            {branding.subheadline ?? "Get a personalized market presentation for your buyer in under 3 minutes"}
           </p>
         </div>
 
+        {pendingDraft && (
+          <div className="mb-6 rounded-lg border border-primary/30 bg-secondary p-4 animate-fade-in">
+            <div className="flex items-start gap-3">
+              <FileClock className="w-5 h-5 mt-0.5 shrink-0 text-primary" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-foreground">
+                  Continue your draft for {draftDisplayName(pendingDraft)}?
+                </p>
+                <p className="text-sm text-text-tertiary">
+                  Last edited {new Date(pendingDraft.savedAt).toLocaleString()}
+                </p>
+                <div className="flex gap-2 mt-3">
+                  <button type="button" onClick={drafts.resumeDraft} className="btn-group-item btn-group-item-selected">
+                    Resume draft
+                  </button>
+                  <button type="button" onClick={drafts.startNewDraft} className="btn-group-item">
+                    Start fresh
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Form Card */}
         <form
-          onSubmit={handleSubmit(onSubmit)}
+          onSubmit={isReviewStep ? handleSubmit(onSubmit, onInvalid) : goNext}
           className="bg-card rounded-xl shadow-lg p-6 md:p-8 animate-fade-in"
           style={{ animationDelay: "0.1s" }}
         >
-          {/* Section 1: Buyer Basics */}
-          <div className="mb-8">
-            <div className="space-y-5">
-              {/* Agent Email */}
-              <div>
-                <label className="block text-sm font-medium text-text-label mb-2">
-                  Your Email
-                </label>
-                <input
-                  type="email"
-                  {...register("agentEmail")}
-                  placeholder="agent@dustonleddy.com"
-                  className="form-input"
-                />
-                {errors.agentEmail && (
-                  <p className="mt-1.5 text-sm text-destructive">
-                    {errors.agentEmail.message}
-                  </p>
-                )}
-              </div>
-
-              <h2 className="font-heading font-semibold text-lg text-foreground pt-2">
-                About Your Buyer
-              </h2>
-
-              {/* Buyer Name */}
-              <div>
-                <label className="block text-sm font-medium text-text-label mb-2">
-                  Buyer's Name
-                </label>
-                <input
-                  type="text"
-                  {...register("buyerName")}
-                  placeholder="Sarah and Mike Johnson"
-                  className="form-input"
-                />
-                {errors.buyerName && (
-                  <p className="mt-1.5 text-sm text-destructive">
-                    {errors.buyerName.message}
-                  </p>
-                )}
-              </div>
-
-              {/* Buyer Situation */}
-              <div>
-                <label className="block text-sm font-medium text-text-label mb-2">
-                  Their Situation
-                </label>
-                <Controller
-                  name="buyerSituation"
-                  control={control}
-                  render={({ field }) => (
-                    <Select onValueChange={field.onChange} value={field.value}>
-                      <SelectTrigger className="h-12 text-base">
-                        <SelectValue placeholder="Select situation" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="first-time">First-Time Buyer</SelectItem>
-                        <SelectItem value="relocating">Relocating to Area</SelectItem>
-                        <SelectItem value="upsizing">Upsizing</SelectItem>
-                        <SelectItem value="downsizing">Downsizing</SelectItem>
-                        <SelectItem value="investment">Investment Property</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  )}
-                />
-              </div>
-
-              {/* Current Living Situation */}
-              <div>
-                <label className="block text-sm font-medium text-text-label mb-1">
-                  Current Living Situation
-                </label>
-                <span className="block text-sm text-text-tertiary mb-2">
-                  Optional: Where do they live now? Renting/owning? Why moving?
+          {isWizard ? (
+            <div className="mb-8">
+              <div className="flex items-center justify-between mb-2 text-sm">
+                <span className="font-heading font-semibold text-foreground">
+                  {isReviewStep ? "Review & Submit" : wizardSteps[stepIndex].title}
                 </span>
-                <Controller
-                  name="currentHome"
-                  control={control}
-                  render={({ field }) => (
-                    <div>
-                      <textarea
-                        {...field}
-                        placeholder="Example: Renting in Boston, tired of city noise, wants yard for kids..."
-                        rows={3}
-                        maxLength={300}
-                        className="form-input min-h-[80px] max-h-[150px] resize-y"
-                      />
-                      <div className="text-right mt-1">
-                        <span className="text-xs text-text-tertiary">
-                          {field.value?.length || 0}/300
-                        </span>
-                      </div>
-                    </div>
-                  )}
-                />
-              </div>
-
-              {/* State & Region selection */}
-              {groupedRegions ? (
-                <>
-                  {/* State selector for grouped regions */}
-                  <div>
-                    <label className="block text-sm font-medium text-text-label mb-2">
-                      What state are you looking in?
-                    </label>
-                    <Controller
-                      name="state"
-                      control={control}
-                      render={({ field }) => (
-                        <Select
-                          onValueChange={(val) => {
-                            field.onChange(val);
-                            setValue("targetAreaPrimary", "");
-                          }}
-                          value={field.value}
-                        >
-                          <SelectTrigger className="h-12 text-base">
-                            <SelectValue placeholder="Select a state" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {Object.keys(groupedRegions).map((state) => (
-                              <SelectItem key={state} value={state}>
-                                {state}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      )}
-                    />
-                    {errors.state && (
-                      <p className="mt-1.5 text-sm text-destructive">
-                        {errors.state.message}
-                      </p>
-                    )}
-                  </div>
-
-                  {/* Region selector (shown after state is picked) */}
-                  {watchedValues.state && (
-                    <div>
-                      <label className="block text-sm font-medium text-text-label mb-2">
-                        Which region are you interested in?
-                      </label>
-                      <Controller
-                        name="targetAreaPrimary"
-                        control={control}
-                        render={({ field }) => (
-                          <Select onValueChange={field.onChange} value={field.value}>
-                            <SelectTrigger className="h-12 text-base">
-                              <SelectValue placeholder="Select a region" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {groupedRegions[watchedValues.state]?.map((option) => (
-                                <SelectItem key={option} value={option}>
-                                  {option}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                        )}
-                      />
-                      {errors.targetAreaPrimary && (
-                        <p className="mt-1.5 text-sm text-destructive">
-                          {errors.targetAreaPrimary.message}
-                        </p>
-                      )}
-                    </div>
-                  )}
-                </>
-              ) : flatRegions ? (
-                /* Flat region list — no state selector needed */
-                <div>
-                  <label className="block text-sm font-medium text-text-label mb-2">
-                    Which region are you interested in?
-                  </label>
-                  <Controller
-                    name="targetAreaPrimary"
-                    control={control}
-                    render={({ field }) => (
-                      <Select onValueChange={field.onChange} value={field.value}>
-                        <SelectTrigger className="h-12 text-base">
-                          <SelectValue placeholder="Select a region" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {flatRegions.map((option) => (
-                            <SelectItem key={option} value={option}>
-                              {option}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    )}
-                  />
-                  {errors.targetAreaPrimary && (
-                    <p className="mt-1.5 text-sm text-destructive">
-                      {errors.targetAreaPrimary.message}
-                    </p>
-                  )}
-                </div>
-              ) : null}
-
-              {/* Commute Destination */}
-              <div>
-                <label className="block text-sm font-medium text-text-label mb-1">
-                  Commute Destination
-                </label>
-                <span className="block text-sm text-text-tertiary mb-2">
-                  Optional: Where does buyer need to commute?
+                <span className="text-text-tertiary">
+                  Step {stepIndex + 1} of {wizardSteps.length + 1}
                 </span>
-                <input
-                  type="text"
-                  {...register("commuteDestination")}
-                  placeholder="Example: Portsmouth Naval Shipyard, Boston, etc."
-                  maxLength={100}
-                  className="form-input"
-                />
-              </div>
-
-              {/* Budget Range */}
-              <div>
-                <label className="block text-sm font-medium text-text-label mb-2">
-                  Budget Range
-                </label>
-                <Controller
-                  name="budgetRange"
-                  control={control}
-                    render={({ field }) => {
-                      const safeValue = Array.isArray(field.value) && field.value.length === 2
-                        ? field.value
-                        : [10, 38];
-                      return (
-                        <div className="pt-2 pb-4">
-                          <div className="flex justify-between mb-4">
-                            <span className="font-heading font-semibold text-lg text-primary">
-                              {formatBudget(budgetSteps[safeValue[0]])}
-                            </span>
-                            <span className="text-text-tertiary">to</span>
-                            <span className="font-heading font-semibold text-lg text-primary">
-                              {formatBudget(budgetSteps[safeValue[1]])}
-                            </span>
-                          </div>
-                          <Slider
-                            defaultValue={safeValue}
-                            value={safeValue}
-                            onValueChange={field.onChange}
-                            min={0}
-                            max={budgetSteps.length - 1}
-                            step={1}
-                            minStepsBetweenThumbs={1}
-                          />
-                        </div>
-                      );
-                    }}
-                />
               </div>
+              <Progress value={((stepIndex + 1) / (wizardSteps.length + 1)) * 100} className="h-2" />
+            </div>
+          ) : (
+            isReviewStep && (
+              <h2 className="font-heading font-semibold text-lg text-foreground mb-4">Review & Submit</h2>
+            )
+          )}
 
-              {/* Timeline */}
-              <div>
-                <label className="block text-sm font-medium text-text-label mb-2">
-                  When are they looking to buy?
-                </label>
-                <Controller
-                  name="timeline"
-                  control={control}
-                  render={({ field }) => (
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-                      {[
-                        { value: "asap", label: "ASAP" },
-                        { value: "1-3", label: "1-3 months" },
-                        { value: "3-6", label: "3-6 months" },
-                        { value: "6+", label: "6+ months" },
-                      ].map((option) => (
-                        <button
-                          key={option.value}
-                          type="button"
-                          onClick={() => field.onChange(option.value)}
-                          className={`btn-group-item ${
-                            field.value === option.value ? "btn-group-item-selected" : ""
-                          }`}
-                        >
-                          {option.label}
-                        </button>
-                      ))}
-                    </div>
-                  )}
-                />
-              </div>
+          {isReviewStep && (
+            <div className="mb-8">
+              <p className="text-sm text-text-tertiary mb-4">
+                Check the details below. Nothing is sent until you click Generate Buyer Guide.
+              </p>
+              <GuideReview
+                steps={wizardSteps}
+                fields={formFields}
+                payload={buildGuideFields(watchedValues)}
+                recipients={buildRecipients(watchedValues, reviewConsent)}
+                agentProfile={buildAgentPayload(brokerage, watchedValues.agentEmail as string).agent_profile}
+                consent={reviewConsent}
+                onEdit={editField}
+              />
             </div>
-          </div>
+          )}
 
-          {/* Section 2: Property Essentials */}
-          <div className="mb-8">
-            <h2 className="font-heading font-semibold text-lg text-foreground mb-4">
-              Property Preferences
-            </h2>
-
-            <div className="space-y-5">
-              {/* Bedrooms */}
-              <div>
-                <label className="block text-sm font-medium text-text-label mb-2">
-                  Bedrooms
-                </label>
-                <Controller
-                  name="bedrooms"
-                  control={control}
-                  render={({ field }) => (
-                    <div className="flex gap-2">
-                      {["2", "3", "4", "5+"].map((option) => (
-                        <button
-                          key={option}
-                          type="button"
-                          onClick={() => field.onChange(option)}
-                          className={`btn-group-item w-20 ${
-                            field.value === option ? "btn-group-item-selected" : ""
-                          }`}
-                        >
-                          {option}
-                        </button>
-                      ))}
-                    </div>
+          {formSections
+            .filter((section) => !isReviewStep && (!isWizard || wizardSteps[stepIndex].sections.includes(section.id)))
+            .map((section) => (
+              <div key={section.id} className={section.id === "agent" ? "mb-5" : "mb-8"}>
+                {section.title && (
+                  <h2 className={`font-heading font-semibold text-lg text-foreground ${section.description ? "mb-1" : "mb-4"}`}>
+                    {section.title} {section.required && <span className="text-destructive">*</span>}
+                  </h2>
+                )}
+                {section.description && (
+                  <p className="text-sm text-text-tertiary mb-4">{section.description}</p>
+                )}
+                <div className="space-y-5">
+                  {formFields
+                    .filter((field) => field.section === section.id)
+                    .map((field) => (
+                      <FormFieldControl key={field.name} field={field} form={form} brokerage={brokerage} />
+                    ))}
+                  {section.id === "agent" && verifiedEmail && onSignOut && (
+                    <p className="-mt-2 text-xs text-text-tertiary">
+                      Not you?{" "}
+                      <button type="button" onClick={onSignOut} className="font-medium text-primary hover:underline">
+                        Sign out
+                      </button>
+                    </p>
                   )}
-                />
-              </div>
-
-              {/* Bathrooms */}
-              <div>
-                <label className="block text-sm font-medium text-text-label mb-2">
-                  Bathrooms
-                </label>
-                <Controller
-                  name="bathrooms"
-                  control={control}
-                  render={({ field }) => (
-                    <div className="flex gap-2">
-                      {["1", "2", "2.5", "3+"].map((option) => (
-                        <button
-                          key={option}
-                          type="button"
-                          onClick={() => field.onChange(option)}
-                          className={`btn-group-item w-20 ${
-                            field.value === option ? "btn-group-item-selected" : ""
+                  {section.id === "agent" && !verifiedEmail && rememberedAgents.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2 -mt-2">
+                      <span className="text-xs text-text-tertiary">Recent on this device:</span>
+                      {rememberedAgents.map((email) => (
+                        <span
+                          key={email}
+                          className={`inline-flex items-center rounded-full border text-xs ${
+                            watchedAgentEmail === email
+                              ? "border-primary bg-secondary text-primary"
+                              : "border-input text-text-secondary"
                           }`}
                         >
-                          {option}
-                        </button>
-                      ))}
-                    </div>
-                  )}
-                />
-              </div>
-
-              {/* Property Type */}
-              <div>
-                <label className="block text-sm font-medium text-text-label mb-1">
-                  Property Type
-                </label>
-                <span className="block text-sm text-text-tertiary mb-3">
-                  Select all that apply
-                </span>
-                <Controller
-                  name="propertyTypes"
-                  control={control}
-                  render={({ field }) => (
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                      {[
-                        { value: "single-family", label: "Single Family", icon: Home },
-                        { value: "townhouse", label: "Townhouse", icon: Building2 },
-                        { value: "condo", label: "Condo", icon: Building },
-                        { value: "new-construction", label: "New Construction", icon: Sparkles },
-                      ].map((option) => {
-                        const Icon = option.icon;
-                        const isSelected = field.value.includes(option.value);
-                        return (
-                          <button
-                            key={option.value}
-                            type="button"
-                            onClick={() => {
-                              const newValue = isSelected
-                                ? field.value.filter((v) => v !== option.value)
-                                : [...field.value, option.value];
-                              field.onChange(newValue.length ? newValue : [option.value]);
-                            }}
-                            className={`selection-card h-24 ${
-                              isSelected ? "selection-card-selected" : ""
-                            }`}
-                          >
-                            {isSelected && (
-                              <div className="absolute top-2 right-2 w-5 h-5 rounded bg-primary flex items-center justify-center">
-                                <Check className="w-3 h-3 text-primary-foreground" />
-                              </div>
-                            )}
-                            <Icon className={`w-6 h-6 mb-2 ${isSelected ? "text-primary" : "text-text-tertiary"}`} />
-                            <span className={`text-sm font-medium ${isSelected ? "text-primary" : "text-text-secondary"}`}>
-                              {option.label}
-                            </span>
+                          <button type="button" onClick={() => switchAgent(email)} className="pl-3 pr-1 py-1">
+                            {findRosterAgent(brokerage, email)?.name ?? email}
                           </button>
-                        );
-                      })}
-                    </div>
-                  )}
-                />
-              </div>
-
-              {/* Top Priority */}
-              <div>
-                <label className="block text-sm font-medium text-text-label mb-1">
-                  Top Priority <span className="text-destructive">*</span>
-                </label>
-                <span className="block text-sm text-text-tertiary mb-2">
-                  What matters most to this buyer?
-                </span>
-                <Controller
-                  name="topPriority"
-                  control={control}
-                  render={({ field }) => (
-                    <Select onValueChange={field.onChange} value={field.value}>
-                      <SelectTrigger className="h-12 text-base">
-                        <SelectValue placeholder="Select priority..." />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="waterfront">Waterfront/Water Views</SelectItem>
-                        <SelectItem value="schools">Top-Rated Schools</SelectItem>
-                        <SelectItem value="walkable">Walkable Downtown</SelectItem>
-                        <SelectItem value="privacy">Privacy/Large Lot</SelectItem>
-                        <SelectItem value="modern">Modern/New Construction</SelectItem>
-                        <SelectItem value="historic">Historic Charm</SelectItem>
-                        <SelectItem value="investment">Investment Property</SelectItem>
-                        <SelectItem value="commute">Short Commute</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  )}
-                />
-                {errors.topPriority && (
-                  <p className="mt-1.5 text-sm text-destructive">
-                    {errors.topPriority.message}
-                  </p>
-                )}
-              </div>
-            </div>
-          </div>
-
-          {/* Section 3: Lifestyle Priorities */}
-          <div className="mb-10">
-            <h2 className="font-heading font-semibold text-lg text-foreground mb-4">
-              Lifestyle Priorities
-            </h2>
-
-            <div className="space-y-5">
-              {/* Work Situation */}
-              <div>
-                <label className="block text-sm font-medium text-text-label mb-2">
-                  Buyer's Work Arrangement
-                </label>
-                <Controller
-                  name="workSituation"
-                  control={control}
-                  render={({ field }) => (
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-                      {[
-                        { value: "office", label: "In-Office", icon: Briefcase },
-                        { value: "hybrid", label: "Hybrid", icon: Monitor },
-                        { value: "remote", label: "Remote", icon: Laptop },
-                        { value: "retired", label: "Retired", icon: Palmtree },
-                      ].map((option) => {
-                        const Icon = option.icon;
-                        const isSelected = field.value === option.value;
-                        return (
-                          <button
-                            key={option.value}
-                            type="button"
-                            onClick={() => field.onChange(option.value)}
-                            className={`btn-group-item flex items-center justify-center gap-2 ${
-                              isSelected ? "btn-group-item-selected" : ""
-                            }`}
-                          >
-                            <Icon className="w-4 h-4" />
-                            <span>{option.label}</span>
-                          </button>
-                        );
-                      })}
-                    </div>
-                  )}
-                />
-                <p className="mt-1.5 text-sm text-text-tertiary">
-                  Helps us prioritize commute accessibility
-                </p>
-              </div>
-
-              {/* School-Age Children */}
-              <div>
-                <label className="block text-sm font-medium text-text-label mb-2">
-                  Does this buyer have school-age children?
-                </label>
-                <Controller
-                  name="hasChildren"
-                  control={control}
-                  render={({ field }) => (
-                    <div className="flex gap-2">
-                      <button
-                        type="button"
-                        onClick={() => field.onChange(true)}
-                        className={`btn-group-item w-24 ${
-                          field.value === true ? "btn-group-item-selected" : ""
-                        }`}
-                      >
-                        Yes
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() => field.onChange(false)}
-                        className={`btn-group-item w-24 ${
-                          field.value === false ? "btn-group-item-selected" : ""
-                        }`}
-                      >
-                        No
-                      </button>
-                    </div>
-                  )}
-                />
-                <p className="mt-1.5 text-sm text-text-tertiary">
-                  Helps us emphasize school ratings
-                </p>
-              </div>
-
-              {/* Lifestyle Focus */}
-              <div>
-                <label className="block text-sm font-medium text-text-label mb-1">
-                  Primary Lifestyle Priority
-                </label>
-                <span className="block text-sm text-text-tertiary mb-3">
-                  Pick the best fit
-                </span>
-                <Controller
-                  name="lifestyleFocus"
-                  control={control}
-                  render={({ field }) => (
-                    <div className="space-y-3">
-                      {[
-                        {
-                          value: "outdoor",
-                          label: "Outdoor & Nature",
-                          desc: "Parks, trails, recreation",
-                          icon: TreePine,
-                        },
-                        {
-                          value: "urban",
-                          label: "Urban & Walkable",
-                          desc: "Dining, shops, entertainment",
-                          icon: MapPin,
-                        },
-                        {
-                          value: "suburban",
-                          label: "Quiet & Suburban",
-                          desc: "Privacy, space, family-friendly",
-                          icon: HomeIcon,
-                        },
-                        {
-                          value: "convenient",
-                          label: "Convenient & Central",
-                          desc: "Short commutes, easy access",
-                          icon: Zap,
-                        },
-                      ].map((option) => {
-                        const Icon = option.icon;
-                        const isSelected = field.value === option.value;
-                        return (
                           <button
-                            key={option.value}
                             type="button"
-                            onClick={() => field.onChange(option.value)}
-                            className={`radio-card w-full text-left ${
-                              isSelected ? "radio-card-selected" : ""
-                            }`}
+                            onClick={() => forgetRememberedAgent(email)}
+                            aria-label={`Forget ${email}`}
+                            className="pr-2 pl-1 py-1 text-text-tertiary hover:text-destructive"
                           >
-                            <div
-                              className={`w-5 h-5 rounded-full border-2 flex items-center justify-center shrink-0 ${
-                                isSelected ? "border-primary" : "border-input"
-                              }`}
-                            >
-                              {isSelected && (
-                                <div className="w-2.5 h-2.5 rounded-full bg-primary" />
-                              )}
-                            </div>
-                            <Icon
-                              className={`w-5 h-5 shrink-0 ${
-                                isSelected ? "text-primary" : "text-text-tertiary"
-                              }`}
-                            />
-                            <div className="flex-1 min-w-0">
-                              <span
-                                className={`block font-medium ${
-                                  isSelected ? "text-primary" : "text-text-secondary"
-                                }`}
-                              >
-                                {option.label}
-                              </span>
-                              <span className="block text-sm text-text-tertiary">
-                                {option.desc}
-                              </span>
-                            </div>
+                            <X className="w-3 h-3" />
                           </button>
-                        );
-                      })}
+                        </span>
+                      ))}
                     </div>
                   )}
-                />
+                </div>
               </div>
-            </div>
-          </div>
-
-          {/* Section 4: Agent Insights (Required) */}
-          <div className="mb-10">
-            <h2 className="font-heading font-semibold text-lg text-foreground mb-1">
-              Agent Insights <span className="text-destructive">*</span>
-            </h2>
-            <p className="text-sm text-text-tertiary mb-4">
-              REQUIRED: Include why they're moving, must-haves, dealbreakers, vibe they want, and 2-3 "human" details.
-            </p>
-
-            <div>
-              <Controller
-                name="agentInsights"
-                control={control}
-                render={({ field }) => (
-                  <div>
-                    <textarea
-                      {...field}
-                      placeholder="Example: Sarah and Mike are relocating from Boston. She's a teacher who loves Prescott Park. They want a historic home with character near downtown. Deal-breaker: HOAs with strict rules. They kayak every weekend and need water access..."
-                      rows={4}
-                      maxLength={1200}
-                      className="form-input min-h-[120px] max-h-[200px] resize-y"
-                    />
-                    <div className="text-right mt-1">
-                      <span className={`text-xs ${
-                        (field.value?.length || 0) < 200 ? "text-amber-500" : "text-text-tertiary"
-                      }`}>
-                        {field.value?.length || 0}/1200 {(field.value?.length || 0) < 200 && `(min 200)`}
-                      </span>
-                    </div>
-                  </div>
-                )}
-              />
-              {errors.agentInsights && (
-                <p className="mt-1.5 text-sm text-destructive">
-                  {errors.agentInsights.message}
-                </p>
-              )}
-              <p className="mt-2 text-sm text-text-tertiary italic">
-                These insights help us personalize neighborhood recommendations and lifestyle details.
-              </p>
-            </div>
-          </div>
+            ))}
 
           {/* Validation & Error Alerts */}
           {Object.keys(errors).length > 0 && (
             <div ref={errorRef} className="mb-4 rounded-lg border border-amber-500/50 bg-amber-50 dark:bg-amber-950/20 p-4 text-amber-800 dark:text-amber-200 text-sm font-medium">
               <p className="font-semibold mb-1">Please complete the following fields:</p>
               <ul className="list-disc list-inside space-y-0.5">
-                {errors.agentEmail && <li>Your Email</li>}
-                {errors.buyerName && <li>Buyer's Name</li>}
-                {errors.buyerSituation && <li>Their Situation</li>}
-                {errors.state && <li>State</li>}
-                {errors.targetAreaPrimary && <li>Region</li>}
-                {errors.budgetRange && <li>Budget Range</li>}
-                {errors.timeline && <li>Timeline</li>}
-                {errors.bedrooms && <li>Bedrooms</li>}
-                {errors.bathrooms && <li>Bathrooms</li>}
-                {errors.propertyTypes && <li>Property Types</li>}
-                {errors.topPriority && <li>Top Priority</li>}
-                {errors.workSituation && <li>Work Situation</li>}
-                {errors.lifestyleFocus && <li>Lifestyle Priority</li>}
-                {errors.agentInsights && <li>Agent Insights {errors.agentInsights.message?.includes("200") ? "(minimum 200 characters)" : ""}</li>}
+                {fieldSummaryLabels(formFields)
+                  .filter(({ name }) => errors[name])
+                  .map(({ name, label, minLength }) => (
+                    <li key={name}>
+                      {label} {errors[name]?.type === "too_small" && minLength ? `(minimum ${minLength} characters)` : ""}
+                    </li>
+                  ))}
               </ul>
             </div>
           )}
@@ -958,33 +616,65 @@ const BuyerGuideForm: React.FC<BuyerGuideFormProps> = ({ brokerage }) => {
               {submitError}
             </div>
           )}
-          <div className="space-y-3">
-            <button
-              type="submit"
-              disabled={isSubmitting}
-              className="btn-submit flex items-center justify-center gap-2"
-            >
-              {isSubmitting ? (
-                <>
-                  <Loader2 className="w-5 h-5 animate-spin" />
-                  <span>Generating Guide...</span>
-                </>
-              ) : (
-                "Generate Buyer Guide"
+          {!isReviewStep ? (
+            <div className="flex gap-3">
+              {stepIndex > 0 && (
+                <button
+                  type="button"
+                  onClick={() => goToStep(stepIndex - 1)}
+                  className="btn-group-item h-14 flex items-center justify-center gap-1"
+                >
+                  <ChevronLeft className="w-5 h-5" />
+                  Back
+                </button>
               )}
-            </button>
+              <button type="submit" className="btn-submit flex-1 flex items-center justify-center gap-1">
+                {stepIndex === reviewStepIndex - 1 ? "Review Guide" : "Next"}
+                <ChevronRight className="w-5 h-5" />
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {isReviewStep && (
+                <button
+                  type="button"
+                  onClick={() => goToStep(stepIndex - 1)}
+                  disabled={isSubmitting}
+                  className="btn-group-item w-full flex items-center justify-center gap-1"
+                >
+                  <ChevronLeft className="w-5 h-5" />
+                  Back
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="btn-submit flex items-center justify-center gap-2"
+              >
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                    <span>Generating Guide...</span>
+                  </>
+                ) : (
+                  "Generate Buyer Guide"
+                )}
+              </button>
 
-            {isSubmitting && (
-              <p className="text-center text-sm text-text-tertiary animate-fade-in">
-                This takes 2-3 minutes. We'll email it to{" "}
-                <span className="font-medium">{watchedValues.agentEmail || "you"}</span>
-              </p>
-            )}
+              {isSubmitting && (
+                <p className="text-center text-sm text-text-tertiary animate-fade-in">
+                  This takes 2-3 minutes. We'll email it to{" "}
+                  <span className="font-medium">{watchedValues.agentEmail || "you"}</span>
+                </p>
+              )}
 
-            <p className="text-center text-xs text-text-tertiary">
-              By submitting, you confirm this buyer has consented to receive this guide.
-            </p>
-          </div>
+              <p className="text-center text-xs text-text-tertiary">
+                {watchedValues.guideDelivery === "agent"
+                  ? "Only you will receive this guide. Share it with your buyer when you're ready."
+                  : "Your buyer's consent is recorded with this guide, along with the consent text they agreed to."}
+              </p>
+            </div>
+          )}
         </form>
       </div>
     </div>
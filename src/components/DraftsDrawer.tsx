@@ -0,0 +1,178 @@
+import React, { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Check, Copy, FilePlus, Files, Pencil, Trash2, X } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { FormDraft, draftDisplayName } from "@/lib/drafts";
+
+interface DraftsDrawerProps {
+  drafts: FormDraft[];
+  activeDraftId: string | null;
+  onOpen: (draft: FormDraft) => void;
+  onNew: () => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const DraftRow: React.FC<{
+  draft: FormDraft;
+  isActive: boolean;
+  onOpen: () => void;
+  onDuplicate: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}> = ({ draft, isActive, onOpen, onDuplicate, onRename, onDelete }) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [name, setName] = useState(draftDisplayName(draft));
+  const region = draft.values.targetAreaPrimary as string;
+
+  return (
+    <li className={`rounded-lg border-2 p-3 ${isActive ? "border-primary bg-secondary" : "border-input bg-card"}`}>
+      {isRenaming ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            onRename(name);
+            setIsRenaming(false);
+          }}
+          className="flex gap-2"
+        >
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={80}
+            autoFocus
+            className="form-input h-10"
+          />
+          <button type="submit" aria-label="Save name" className="p-2 text-primary">
+            <Check className="w-4 h-4" />
+          </button>
+          <button type="button" aria-label="Cancel rename" onClick={() => setIsRenaming(false)} className="p-2 text-text-tertiary">
+            <X className="w-4 h-4" />
+          </button>
+        </form>
+      ) : (
+        <button type="button" onClick={onOpen} className="w-full text-left">
+          <span className={`block font-medium truncate ${isActive ? "text-primary" : "text-foreground"}`}>
+            {draftDisplayName(draft)}
+            {isActive && <span className="ml-2 text-xs font-normal text-text-tertiary">(editing)</span>}
+          </span>
+          <span className="block text-sm text-text-tertiary truncate">
+            {region ? `${region} · ` : ""}Edited {formatDistanceToNow(draft.savedAt, { addSuffix: true })}
+          </span>
+        </button>
+      )}
+
+      {isConfirmingDelete ? (
+        <div className="flex items-center justify-end gap-2 mt-2 text-sm">
+          <span className="text-text-secondary">Delete this draft?</span>
+          <button type="button" onClick={onDelete} className="font-medium text-destructive">
+            Delete
+          </button>
+          <button type="button" onClick={() => setIsConfirmingDelete(false)} className="text-text-tertiary">
+            Cancel
+          </button>
+        </div>
+      ) : (
+        !isRenaming && (
+          <div className="flex justify-end gap-1 mt-2">
+            <button
+              type="button"
+              aria-label="Rename draft"
+              onClick={() => {
+                setName(draftDisplayName(draft));
+                setIsRenaming(true);
+              }}
+              className="p-1.5 rounded text-text-tertiary hover:bg-muted"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            <button type="button" aria-label="Duplicate draft" onClick={onDuplicate} className="p-1.5 rounded text-text-tertiary hover:bg-muted">
+              <Copy className="w-4 h-4" />
+            </button>
+            <button type="button" aria-label="Delete draft" onClick={() => setIsConfirmingDelete(true)} className="p-1.5 rounded text-text-tertiary hover:bg-muted hover:text-destructive">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )
+      )}
+    </li>
+  );
+};
+
+const DraftsDrawer: React.FC<DraftsDrawerProps> = ({
+  drafts,
+  activeDraftId,
+  onOpen,
+  onNew,
+  onDuplicate,
+  onRename,
+  onDelete,
+}) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <button
+          type="button"
+          className="inline-flex items-center gap-2 px-3 py-1.5 rounded-md border border-input bg-card text-sm font-medium text-text-secondary hover:bg-muted"
+        >
+          <Files className="w-4 h-4" />
+          Drafts{drafts.length > 0 && ` (${drafts.length})`}
+        </button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="font-heading">Saved Drafts</SheetTitle>
+          <SheetDescription>
+            Drafts save automatically as you type and stay on this device until the guide is submitted.
+          </SheetDescription>
+        </SheetHeader>
+
+        <button
+          type="button"
+          onClick={() => {
+            onNew();
+            setOpen(false);
+          }}
+          className="btn-group-item w-full flex items-center justify-center gap-2 my-4"
+        >
+          <FilePlus className="w-4 h-4" />
+          New guide
+        </button>
+
+        {drafts.length === 0 ? (
+          <p className="text-sm text-text-tertiary text-center py-8">No saved drafts yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {drafts.map((draft) => (
+              <DraftRow
+                key={draft.id}
+                draft={draft}
+                isActive={draft.id === activeDraftId}
+                onOpen={() => {
+                  onOpen(draft);
+                  setOpen(false);
+                }}
+                onDuplicate={() => onDuplicate(draft.id)}
+                onRename={(name) => onRename(draft.id, name)}
+                onDelete={() => onDelete(draft.id)}
+              />
+            ))}
+          </ul>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default DraftsDrawer;
@@ -0,0 +1,118 @@
+import React, { useState } from "react";
+import { X } from "lucide-react";
+import { z } from "zod";
+import { normalizeEmail } from "@/lib/agentIdentity";
+
+interface EmailListInputProps {
+  value: string[];
+  onChange: (emails: string[]) => void;
+  maxItems: number;
+  placeholder?: string;
+  /** Addresses that already get the guide, such as the agent's own */
+  exclude?: string[];
+  onBlur?: () => void;
+}
+
+const emailSchema = z.string().email();
+
+/**
+ * Addresses entered one at a time and shown as removable chips. Enter, comma,
+ * semicolon or leaving the field adds what was typed; pasting a list adds
+ * each address in it. Duplicates are dropped and the cap is enforced here, so
+ * the form schema only has to catch values restored from old drafts.
+ */
+const EmailListInput: React.FC<EmailListInputProps> = ({ value, onChange, maxItems, placeholder, exclude = [], onBlur }) => {
+  const [text, setText] = useState("");
+  const [problem, setProblem] = useState("");
+  const isFull = value.length >= maxItems;
+
+  const add = (input: string) => {
+    const candidates = input.split(/[\s,;]+/).map(normalizeEmail).filter(Boolean);
+    if (!candidates.length) return;
+    const next = [...value];
+    const rejected: string[] = [];
+    let message = "";
+    for (const email of candidates) {
+      if (next.includes(email)) continue;
+      if (exclude.some((excluded) => normalizeEmail(excluded) === email)) {
+        message = `${email} already gets the guide`;
+      } else if (!emailSchema.safeParse(email).success) {
+        message = `${email} isn't a valid email address`;
+        rejected.push(email);
+      } else if (next.length >= maxItems) {
+        message = `Add at most ${maxItems} addresses`;
+      } else {
+        next.push(email);
+      }
+    }
+    if (next.length !== value.length) onChange(next);
+    // Keep a mistyped address in the box so it can be fixed rather than retyped
+    setText(rejected.join(", "));
+    setProblem(message);
+  };
+
+  const remove = (email: string) => {
+    onChange(value.filter((existing) => existing !== email));
+    setProblem("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === "," || e.key === ";") {
+      e.preventDefault();
+      add(text);
+    } else if (e.key === "Backspace" && !text && value.length) {
+      remove(value[value.length - 1]);
+    }
+  };
+
+  return (
+    <div>
+      <div className="form-input flex flex-wrap items-center gap-2 h-auto min-h-12 py-2">
+        {value.map((email) => (
+          <span
+            key={email}
+            className="inline-flex items-center rounded-full border border-primary bg-secondary text-primary text-sm"
+          >
+            <span className="pl-3 pr-1 py-0.5">{email}</span>
+            <button
+              type="button"
+              onClick={() => remove(email)}
+              aria-label={`Remove ${email}`}
+              className="pr-2 pl-1 py-0.5 hover:text-destructive"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        {!isFull && (
+          <input
+            type="text"
+            inputMode="email"
+            autoComplete="off"
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              setProblem("");
+            }}
+            onKeyDown={handleKeyDown}
+            onPaste={(e) => {
+              e.preventDefault();
+              add(`${text} ${e.clipboardData.getData("text")}`);
+            }}
+            onBlur={() => {
+              add(text);
+              onBlur?.();
+            }}
+            placeholder={value.length ? "" : placeholder}
+            className="flex-1 min-w-[12rem] bg-transparent outline-none text-base"
+          />
+        )}
+      </div>
+      <p className={`mt-1.5 text-xs ${problem ? "text-destructive" : "text-text-tertiary"}`}>
+        {problem || `${value.length}/${maxItems} added`}
+      </p>
+    </div>
+  );
+};
+
+export default EmailListInput;
@@ -0,0 +1,32 @@
+import { FlaskConical } from "lucide-react";
+import { appEnvironment, defaultWebhookUrl, isProduction } from "@/config/environment";
+
+const webhookHost = (() => {
+  try {
+    return new URL(defaultWebhookUrl).host;
+  } catch {
+    return defaultWebhookUrl;
+  }
+})();
+
+/** Sticky strip on every non-production deployment so test guides aren't mistaken for real ones. */
+const EnvironmentBanner = () => {
+  if (isProduction) {
+    return null;
+  }
+
+  return (
+    <div
+      role="status"
+      className="sticky top-0 z-50 flex items-center justify-center gap-2 bg-amber-400 px-4 py-1.5 text-center text-xs font-medium text-amber-950"
+    >
+      <FlaskConical className="w-3.5 h-3.5 shrink-0" />
+      <span>
+        <span className="uppercase tracking-wide font-semibold">{appEnvironment}</span> · submissions go to{" "}
+        {webhookHost}
+      </span>
+    </div>
+  );
+};
+
+export default EnvironmentBanner;
@@ -0,0 +1,482 @@
+import React from "react";
+import { Controller, UseFormReturn } from "react-hook-form";
+import { Check, Home, Building2, Building, Sparkles, Briefcase, Laptop, Monitor, Palmtree, TreePine, MapPin, HomeIcon, Zap, Waves, MountainSnow, LucideIcon } from "lucide-react";
+import AgentPicker from "@/components/AgentPicker";
+import EmailListInput from "@/components/EmailListInput";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BrokerageConfig } from "@/config/brokerages";
+import { FieldDefinition, FieldIconName, RegionFieldDefinition } from "@/config/formFields";
+import { AGENT_EMAIL_FIELD, routedRecipients } from "@/lib/agentIdentity";
+import { FormValues, isFieldActive } from "@/lib/formSchema";
+import { formatBudget } from "@/lib/budget";
+
+const fieldIcons: Record<FieldIconName, LucideIcon> = {
+  Home,
+  Building2,
+  Building,
+  Sparkles,
+  Briefcase,
+  Laptop,
+  Monitor,
+  Palmtree,
+  TreePine,
+  MapPin,
+  HomeIcon,
+  Zap,
+  Waves,
+  MountainSnow,
+};
+
+interface FormFieldControlProps {
+  field: FieldDefinition;
+  form: UseFormReturn<FormValues>;
+  brokerage: BrokerageConfig;
+}
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="mt-1.5 text-sm text-destructive">{message}</p> : null;
+
+const FieldLabel = ({ field }: { field: FieldDefinition }) => (
+  <>
+    <label className={`block text-sm font-medium text-text-label ${field.hint ? "mb-1" : "mb-2"}`}>
+      {field.label}
+      {field.markRequired && <> <span className="text-destructive">*</span></>}
+    </label>
+    {field.hint && (
+      <span className={`block text-sm text-text-tertiary ${field.type === "selection-cards" || field.type === "radio-cards" ? "mb-3" : "mb-2"}`}>
+        {field.hint}
+      </span>
+    )}
+  </>
+);
+
+const RegionControl: React.FC<{
+  field: RegionFieldDefinition;
+  form: UseFormReturn<FormValues>;
+  brokerage: BrokerageConfig;
+}> = ({ field, form, brokerage }) => {
+  const { control, watch, setValue, formState: { errors } } = form;
+  const stateName = field.stateField.name;
+  const selectedState = watch(stateName) as string | undefined;
+  const regionOptions = Array.isArray(brokerage.regions)
+    ? brokerage.regions
+    : selectedState
+      ? brokerage.regions[selectedState] ?? []
+      : null;
+
+  return (
+    <>
+      {/* State selector for grouped regions */}
+      {!Array.isArray(brokerage.regions) && (
+        <div id={`field-${stateName}`}>
+          <label className="block text-sm font-medium text-text-label mb-2">
+            {field.stateField.label}
+          </label>
+          <Controller
+            name={stateName}
+            control={control}
+            render={({ field: state }) => (
+              <Select
+                onValueChange={(val) => {
+                  state.onChange(val);
+                  setValue(field.name, "");
+                }}
+                value={state.value as string}
+              >
+                <SelectTrigger className="h-12 text-base">
+                  <SelectValue placeholder={field.stateField.placeholder} />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(brokerage.regions).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          />
+          <FieldError message={errors[stateName]?.message as string} />
+        </div>
+      )}
+
+      {/* Region selector (shown after state is picked when grouped) */}
+      {regionOptions && (
+        <div id={`field-${field.name}`}>
+          <FieldLabel field={field} />
+          <Controller
+            name={field.name}
+            control={control}
+            render={({ field: region }) => (
+              <Select onValueChange={region.onChange} value={region.value as string}>
+                <SelectTrigger className="h-12 text-base">
+                  <SelectValue placeholder={field.placeholder} />
+                </SelectTrigger>
+                <SelectContent>
+                  {regionOptions.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          />
+          <FieldError message={errors[field.name]?.message as string} />
+        </div>
+      )}
+    </>
+  );
+};
+
+const FormFieldControl: React.FC<FormFieldControlProps> = ({ field, form, brokerage }) => {
+  const { register, control, watch, formState: { errors } } = form;
+
+  const { dependsOn } = field;
+  if (field.hidden || (dependsOn && !isFieldActive(field, { [dependsOn.field]: watch(dependsOn.field) }))) {
+    return null;
+  }
+
+  if (field.type === "region") {
+    return <RegionControl field={field} form={form} brokerage={brokerage} />;
+  }
+
+  const renderControl = () => {
+    switch (field.type) {
+      case "email":
+      case "text":
+        // Brokerages with a roster let agents pick themselves instead of typing
+        if (field.name === AGENT_EMAIL_FIELD && brokerage.agents?.length && !field.readOnly) {
+          return (
+            <Controller
+              name={field.name}
+              control={control}
+              render={({ field: agent }) => (
+                <AgentPicker brokerage={brokerage} value={(agent.value as string) ?? ""} onChange={agent.onChange} />
+              )}
+            />
+          );
+        }
+        return (
+          <input
+            type={field.type}
+            {...register(field.name)}
+            placeholder={field.placeholder}
+            maxLength={field.maxLength}
+            readOnly={field.readOnly}
+            className={`form-input ${field.readOnly ? "bg-muted text-text-secondary" : ""}`}
+          />
+        );
+
+      case "email-list":
+        return (
+          <Controller
+            name={field.name}
+            control={control}
+            render={({ field: list }) => (
+              <EmailListInput
+                value={(list.value as string[]) ?? []}
+                onChange={list.onChange}
+                onBlur={list.onBlur}
+                maxItems={field.maxItems}
+                placeholder={field.placeholder}
+                exclude={routedRecipients(brokerage, (watch(AGENT_EMAIL_FIELD) as string) ?? "").filter(Boolean)}
+              />
+            )}
+          />
+        );
+
+      case "textarea":
+        return (
+          <Controller
+            name={field.name}
+            control={control}
+            render={({ field: textarea }) => {
+              const length = (textarea.value as string)?.length || 0;
+              const belowMin = field.minLength !== undefined && length < field.minLength;
+              return (
+                <div>
+                  <textarea
+                    {...textarea}
+                    value={textarea.value as string}
+                    placeholder={field.placeholder}
+                    rows={field.rows}
+                    maxLength={field.maxLength}
+                    className={`form-input ${field.className ?? ""} resize-y`}
+                  />
+                  <div className="text-right mt-1">
+                    <span className={`text-xs ${belowMin ? "text-amber-500" : "text-text-tertiary"}`}>
+                      {length}/{field.maxLength} {belowMin && `(min ${field.minLength})`}
+                    </span>
+                  </div>
+                </div>
+              );
+            }}
+          />
+        );
+
+      case "select":
+        return (
+          <Controller
+            name={field.name}
+            control={control}
+            render={({ field: select }) => (
+              <Select onValueChange={select.onChange} value={select.value as string}>
+                <SelectTrigger className="h-12 text-base">
+                  <SelectValue placeholder={field.placeholder} />
+                </SelectTrigger>
+                <SelectContent>
+                  {field.options.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          />
+        );
+
+      case "chip-group":
+        return (
+          <Controller
+            name={field.name}
+            control={control}
+            render={({ field: group }) => (
+              <div className={field.layout === "grid" ? "grid grid-cols-2 md:grid-cols-4 gap-2" : "flex gap-2"}>
+                {field.options.map((option) => {
+                  const Icon = option.icon ? fieldIcons[option.icon] : null;
+                  const isSelected = group.value === option.value;
+                  return (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => group.onChange(option.value)}
+                      className={`btn-group-item ${field.layout === "inline" ? "w-20" : ""} ${
+                        Icon ? "flex items-center justify-center gap-2" : ""
+                      } ${isSelected ? "btn-group-item-selected" : ""}`}
+                    >
+                      {Icon ? (
+                        <>
+                          <Icon className="w-4 h-4" />
+                          <span>{option.label}</span>
+                        </>
+                      ) : (
+                        option.label
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          />
+        );
+
+      case "selection-cards":
+        return (
+          <Controller
+            name={field.name}
+            control={control}
+            render={({ field: cards }) => {
+              const selected = (cards.value as string[]) ?? [];
+              return (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {field.options.map((option) => {
+                    const Icon = option.icon ? fieldIcons[option.icon] : null;
+                    const isSelected = selected.includes(option.value);
+                    return (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => {
+                          const newValue = isSelected
+                            ? selected.filter((v) => v !== option.value)
+                            : [...selected, option.value];
+                          cards.onChange(newValue.length ? newValue : [option.value]);
+                        }}
+                        className={`selection-card h-24 ${
+                          isSelected ? "selection-card-selected" : ""
+                        }`}
+                      >
+                        {isSelected && (
+                          <div className="absolute top-2 right-2 w-5 h-5 rounded bg-primary flex items-center justify-center">
+                            <Check className="w-3 h-3 text-primary-foreground" />
+                          </div>
+                        )}
+                        {Icon && (
+                          <Icon className={`w-6 h-6 mb-2 ${isSelected ? "text-primary" : "text-text-tertiary"}`} />
+                        )}
+                        <span className={`text-sm font-medium ${isSelected ? "text-primary" : "text-text-secondary"}`}>
+                          {option.label}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              );
+            }}
+          />
+        );
+
+      case "radio-cards":
+        return (
+          <Controller
+            name={field.name}
+            control={control}
+            render={({ field: radio }) => (
+              <div className="space-y-3">
+                {field.options.map((option) => {
+                  const Icon = option.icon ? fieldIcons[option.icon] : null;
+                  const isSelected = radio.value === option.value;
+                  return (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => radio.onChange(option.value)}
+                      className={`radio-card w-full text-left ${
+                        isSelected ? "radio-card-selected" : ""
+                      }`}
+                    >
+                      <div
+                        className={`w-5 h-5 rounded-full border-2 flex items-center justify-center shrink-0 ${
+                          isSelected ? "border-primary" : "border-input"
+                        }`}
+                      >
+                        {isSelected && (
+                          <div className="w-2.5 h-2.5 rounded-full bg-primary" />
+                        )}
+                      </div>
+                      {Icon && (
+                        <Icon
+                          className={`w-5 h-5 shrink-0 ${
+                            isSelected ? "text-primary" : "text-text-tertiary"
+                          }`}
+                        />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <span
+                          className={`block font-medium ${
+                            isSelected ? "text-primary" : "text-text-secondary"
+                          }`}
+                        >
+                          {option.label}
+                        </span>
+                        {option.description && (
+                          <span className="block text-sm text-text-tertiary">
+                            {option.description}
+                          </span>
+                        )}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          />
+        );
+
+      case "toggle":
+        return (
+          <Controller
+            name={field.name}
+            control={control}
+            render={({ field: toggle }) => (
+              <div className="flex gap-2">
+                {[
+                  { value: true, label: field.trueLabel },
+                  { value: false, label: field.falseLabel },
+                ].map((option) => (
+                  <button
+                    key={option.label}
+                    type="button"
+                    onClick={() => toggle.onChange(option.value)}
+                    className={`btn-group-item w-24 ${
+                      toggle.value === option.value ? "btn-group-item-selected" : ""
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          />
+        );
+
+      case "consent":
+        return (
+          <Controller
+            name={field.name}
+            control={control}
+            render={({ field: consent }) => (
+              <label className="flex items-start gap-3 rounded-lg border border-input p-4 cursor-pointer">
+                <Checkbox
+                  ref={consent.ref}
+                  checked={consent.value === true}
+                  onCheckedChange={(checked) => consent.onChange(checked === true)}
+                  className="mt-0.5"
+                />
+                <span className="text-sm text-text-secondary">
+                  {field.consentText}
+                  <span className="block mt-1 text-xs text-text-tertiary">Consent text v{field.consentVersion}</span>
+                </span>
+              </label>
+            )}
+          />
+        );
+
+      case "dual-slider":
+        return (
+          <Controller
+            name={field.name}
+            control={control}
+            render={({ field: slider }) => {
+              const safeValue = Array.isArray(slider.value) && slider.value.length === 2
+                ? (slider.value as number[])
+                : field.defaultValue;
+              const format = (index: number) =>
+                field.format === "currency" ? formatBudget(field.steps[index]) : String(field.steps[index]);
+              return (
+                <div className="pt-2 pb-4">
+                  <div className="flex justify-between mb-4">
+                    <span className="font-heading font-semibold text-lg text-primary">
+                      {format(safeValue[0])}
+                    </span>
+                    <span className="text-text-tertiary">to</span>
+                    <span className="font-heading font-semibold text-lg text-primary">
+                      {format(safeValue[1])}
+                    </span>
+                  </div>
+                  <Slider
+                    defaultValue={safeValue}
+                    value={safeValue}
+                    onValueChange={slider.onChange}
+                    min={0}
+                    max={field.steps.length - 1}
+                    step={1}
+                    minStepsBetweenThumbs={1}
+                  />
+                </div>
+              );
+            }}
+          />
+        );
+    }
+  };
+
+  return (
+    <div id={`field-${field.name}`}>
+      {!field.hideLabel && <FieldLabel field={field} />}
+      {renderControl()}
+      <FieldError message={errors[field.name]?.message as string} />
+      {field.helpText && (
+        <p className="mt-1.5 text-sm text-text-tertiary">
+          {field.helpText}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FormFieldControl;
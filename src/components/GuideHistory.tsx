@@ -0,0 +1,302 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { AlertCircle, ArrowLeft, Clock, Loader2, MailCheck, RotateCw, Send } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BrokerageConfig } from "@/config/brokerages";
+import { FORM_SCHEMA_VERSION } from "@/config/formFields";
+import { resolveStatusUrl, resolveWebhookUrl } from "@/config/environment";
+import { useGuideStatus } from "@/hooks/use-guide-status";
+import { useSubmissionQueue } from "@/hooks/use-submission-queue";
+import { buildAgentPayload, extraRecipients, normalizeEmail, routedRecipients } from "@/lib/agentIdentity";
+import { createDraftId } from "@/lib/drafts";
+import { resolveFormFields } from "@/lib/fieldOverrides";
+import { renewConsentRecord } from "@/lib/formSchema";
+import { GuideStatus } from "@/lib/guideStatus";
+import { IntakeSession, isSessionValid } from "@/lib/pinAuth";
+import {
+  GuideHistoryEntry,
+  HISTORY_RETENTION_MS,
+  historyAgents,
+  loadHistory,
+  recordSubmission,
+} from "@/lib/submissionHistory";
+import { QueuedSubmission, enqueueSubmission } from "@/lib/submissionQueue";
+import { postGuide } from "@/lib/submitGuide";
+
+interface GuideHistoryProps {
+  brokerage: BrokerageConfig;
+  session: IntakeSession;
+  /** Called instead of resending when the PIN session has run out */
+  onSessionExpired: () => void;
+}
+
+const statusStyles: Record<GuideStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  queued: {
+    label: "Queued",
+    className: "bg-muted text-text-secondary",
+    icon: <Clock className="w-3.5 h-3.5" />,
+  },
+  generating: {
+    label: "Generating",
+    className: "bg-secondary text-primary",
+    icon: <Loader2 className="w-3.5 h-3.5 animate-spin" />,
+  },
+  emailed: {
+    label: "Emailed",
+    className: "bg-success/10 text-success",
+    icon: <MailCheck className="w-3.5 h-3.5" />,
+  },
+  failed: {
+    label: "Failed",
+    className: "bg-destructive/10 text-destructive",
+    icon: <AlertCircle className="w-3.5 h-3.5" />,
+  },
+};
+
+const HistoryRow: React.FC<{
+  entry: GuideHistoryEntry;
+  statusUrl: string;
+  queued?: QueuedSubmission;
+  isResending: boolean;
+  onResend: () => void;
+}> = ({ entry, statusUrl, queued, isResending, onResend }) => {
+  const { report, isChecking, error, refetch } = useGuideStatus(statusUrl, entry.submissionId, queued);
+  const style = report ? statusStyles[report.status] : undefined;
+
+  return (
+    <li className="rounded-lg border-2 border-input bg-card p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="font-medium text-foreground truncate">{entry.buyerName}</p>
+          <p className="text-sm text-text-tertiary truncate">
+            {[entry.region, entry.budget].filter(Boolean).join(" · ")}
+          </p>
+        </div>
+        {style ? (
+          <span className={`inline-flex items-center gap-1 shrink-0 px-2 py-1 rounded-full text-xs font-medium ${style.className}`}>
+            {style.icon}
+            {style.label}
+          </span>
+        ) : (
+          <span className="inline-flex items-center gap-1 shrink-0 text-xs text-text-tertiary">
+            {isChecking ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <AlertCircle className="w-3.5 h-3.5" />}
+            {isChecking ? "Checking..." : "Status unavailable"}
+          </span>
+        )}
+      </div>
+
+      {(report?.message || error) && (
+        <p className={`mt-2 text-sm ${report?.status === "failed" ? "text-destructive" : "text-text-tertiary"}`}>
+          {report?.message ?? "We couldn't reach the status service."}
+        </p>
+      )}
+
+      <div className="flex items-end justify-between gap-3 mt-3">
+        <p className="text-xs text-text-tertiary min-w-0">
+          {format(entry.submittedAt, "MMM d, yyyy 'at' h:mm a")}
+          {entry.resendOf && " · resent"}
+          <span className="block font-mono truncate" title="Submission ID">
+            {entry.submissionId}
+          </span>
+        </p>
+        <div className="flex gap-1 shrink-0">
+          {!report && !isChecking && (
+            <button type="button" aria-label="Check again" onClick={() => refetch()} className="p-1.5 rounded text-text-tertiary hover:bg-muted">
+              <RotateCw className="w-4 h-4" />
+            </button>
+          )}
+          {(report?.status === "failed" || report?.status === "emailed") && (
+            <button
+              type="button"
+              onClick={onResend}
+              disabled={isResending}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-input text-sm font-medium text-text-secondary hover:bg-muted disabled:opacity-70"
+            >
+              {isResending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              Resend
+            </button>
+          )}
+        </div>
+      </div>
+    </li>
+  );
+};
+
+/**
+ * Guides submitted from this device, with live status and resend. An agent
+ * signed in by email sees only their own; with the shared PIN, any agent who
+ * used the device can be picked.
+ */
+const GuideHistory: React.FC<GuideHistoryProps> = ({ brokerage, session, onSessionExpired }) => {
+  const verifiedEmail = session.agentEmail && normalizeEmail(session.agentEmail);
+  const agents = verifiedEmail ? [verifiedEmail] : historyAgents(brokerage.slug);
+  const [agentEmail, setAgentEmail] = useState(agents[0] ?? "");
+  const [history, setHistory] = useState(() => loadHistory(brokerage.slug, agentEmail));
+  const [resendingId, setResendingId] = useState<string | null>(null);
+  const queue = useSubmissionQueue();
+  const statusUrl = resolveStatusUrl(brokerage);
+
+  const selectAgent = (email: string) => {
+    setAgentEmail(email);
+    setHistory(loadHistory(brokerage.slug, email));
+  };
+
+  // A resend is a new guide: fresh submission ID and the current session's token and key
+  const resend = async (entry: GuideHistoryEntry) => {
+    if (!isSessionValid(session)) {
+      onSessionExpired();
+      return;
+    }
+    // The session vouches for one agent; it can't send a guide as anyone else
+    if (verifiedEmail && normalizeEmail(entry.agentEmail) !== verifiedEmail) {
+      toast.error(`Only ${entry.agentEmail} can resend this guide`);
+      return;
+    }
+    // The webhook only takes the current field set, which an old payload may not match
+    if (entry.payload.form_schema_version !== FORM_SCHEMA_VERSION) {
+      toast.error(`Guide for ${entry.buyerName} was sent with an older form`, {
+        description: "Fill in the form again to send a new guide.",
+      });
+      return;
+    }
+    const fields = resolveFormFields(brokerage);
+    // The resend is a fresh confirmation, but only of the consent text the buyer agreed to
+    const buyerConsent = renewConsentRecord(entry.payload, entry.agentEmail, fields);
+    if (buyerConsent === undefined) {
+      toast.error(`Guide for ${entry.buyerName} can't be resent to the buyer`, {
+        description: "The consent wording has changed since. Fill in the form again to confirm it.",
+      });
+      return;
+    }
+    setResendingId(entry.submissionId);
+    const submissionId = createDraftId();
+    // Added recipients who have since become the agent's routing CCs are dropped, as on the form
+    const alreadyReceiving = routedRecipients(brokerage, entry.agentEmail);
+    const recipientLists = Object.fromEntries(
+      fields
+        .filter((field) => field.type === "email-list" && Array.isArray(entry.payload[field.exportName as string]))
+        .map((field) => [
+          field.exportName,
+          extraRecipients(entry.payload[field.exportName as string] as string[], alreadyReceiving),
+        ]),
+    );
+    const resent: GuideHistoryEntry = {
+      ...entry,
+      submissionId,
+      submittedAt: Date.now(),
+      url: resolveWebhookUrl(brokerage),
+      payload: {
+        ...entry.payload,
+        submission_id: submissionId,
+        brokerage_slug: brokerage.slug,
+        intake_token: session.token,
+        verified_agent_email: session.agentEmail,
+        // The roster may have changed since, so the contact card is rebuilt too
+        ...buildAgentPayload(brokerage, entry.agentEmail),
+        buyer_consent: buyerConsent,
+        ...recipientLists,
+      },
+      resendOf: entry.submissionId,
+    };
+    const queueEntry = {
+      id: submissionId,
+      brokerageSlug: brokerage.slug,
+      url: resent.url,
+      payload: resent.payload,
+      signingKey: session.signingKey,
+      buyerName: entry.buyerName,
+      agentEmail: entry.agentEmail,
+    };
+
+    try {
+      const result = navigator.onLine
+        ? await postGuide(resent.url, resent.payload, submissionId, session.signingKey)
+        : undefined;
+      if (result && !result.ok && !result.retryable) {
+        toast.error(`Guide for ${entry.buyerName} could not be resent`, { description: result.message });
+        return;
+      }
+      if (result?.ok) {
+        toast.success(`Guide for ${entry.buyerName} was resent`);
+      } else {
+        await enqueueSubmission(queueEntry, result?.message);
+      }
+      recordSubmission(resent);
+      setHistory(loadHistory(brokerage.slug, agentEmail));
+    } catch (error) {
+      console.error("Could not queue resend:", error);
+      toast.error(`Guide for ${entry.buyerName} could not be resent`);
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background py-6 px-4 md:py-12 md:px-6">
+      <div className="w-full max-w-[600px] mx-auto">
+        <Link
+          to={`/${brokerage.slug}`}
+          className="inline-flex items-center gap-1 mb-6 text-sm font-medium text-text-secondary hover:text-foreground"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to form
+        </Link>
+
+        <div className="text-center mb-8 animate-fade-in">
+          <img
+            src={brokerage.logoUrl}
+            alt={brokerage.name}
+            className="mx-auto mb-6"
+            style={{ maxWidth: `${brokerage.branding?.logoMaxWidth ?? 300}px`, height: "auto", objectFit: "contain" }}
+          />
+          <h1 className="font-heading font-semibold text-[28px] md:text-[32px] text-foreground mb-2">Your Guides</h1>
+          <p className="text-text-tertiary text-base">
+            Guides submitted from this device in the last {HISTORY_RETENTION_MS / (24 * 60 * 60 * 1000)} days. Status
+            updates automatically.
+          </p>
+        </div>
+
+        {agents.length > 1 && (
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-text-label mb-2">Agent</label>
+            <Select value={agentEmail} onValueChange={selectAgent}>
+              <SelectTrigger className="h-12 text-base">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {agents.map((email) => (
+                  <SelectItem key={email} value={email}>
+                    {email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {history.length === 0 ? (
+          <p className="text-sm text-text-tertiary text-center py-12 bg-card rounded-xl shadow-lg">
+            No guides submitted from this device yet.
+          </p>
+        ) : (
+          <ul className="space-y-3 animate-fade-in">
+            {history.map((entry) => (
+              <HistoryRow
+                key={entry.submissionId}
+                entry={entry}
+                statusUrl={statusUrl}
+                queued={queue.find((queued) => queued.id === entry.submissionId)}
+                isResending={resendingId === entry.submissionId}
+                onResend={() => resend(entry)}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GuideHistory;
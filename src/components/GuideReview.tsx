@@ -0,0 +1,123 @@
+import React from "react";
+import { Pencil } from "lucide-react";
+import { FieldDefinition, WizardStep } from "@/config/formFields";
+import { GuideRecipient, buildAgentPayload } from "@/lib/agentIdentity";
+import { buildConsentRecord, describePayloadValue, isPayloadFieldActive } from "@/lib/formSchema";
+
+interface GuideReviewProps {
+  steps: WizardStep[];
+  fields: FieldDefinition[];
+  /** The field part of the webhook payload, as built for submission */
+  payload: Record<string, unknown>;
+  /** Everyone the guide is emailed to, routing CCs included (see guideRecipients) */
+  recipients: GuideRecipient[];
+  /** Sent as `agent_profile`; null when the agent isn't on the roster */
+  agentProfile: ReturnType<typeof buildAgentPayload>["agent_profile"];
+  /** Sent as `buyer_consent`, with its timestamp set on submit */
+  consent: ReturnType<typeof buildConsentRecord>;
+  /** Jump back to a field by its form name */
+  onEdit: (fieldName: string) => void;
+}
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="py-2 text-sm">
+    <dt className="text-text-tertiary">{label}</dt>
+    <dd className="whitespace-pre-line break-words text-foreground">{children}</dd>
+  </div>
+);
+
+/**
+ * Read-only summary of the submission, shown before the webhook is called:
+ * the field payload, then who receives the guide, the agent's contact card
+ * and the consent record.
+ */
+const GuideReview: React.FC<GuideReviewProps> = ({
+  steps,
+  fields,
+  payload,
+  recipients,
+  agentProfile,
+  consent,
+  onEdit,
+}) => (
+  <div className="space-y-6">
+    {steps.map((step) => (
+      <section key={step.id} className="rounded-lg border border-input p-4">
+        <h3 className="font-heading font-semibold text-base text-foreground mb-3">{step.title}</h3>
+        <dl className="divide-y divide-border">
+          {fields
+            .filter(
+              (field) =>
+                step.sections.includes(field.section) && !field.hidden && isPayloadFieldActive(field, payload, fields),
+            )
+            .map((field) => {
+              const value = describePayloadValue(field, payload);
+              return (
+                <div key={field.name} className="flex items-start gap-3 py-2 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <dt className="text-text-tertiary">{field.summaryLabel ?? field.label}</dt>
+                    <dd className={`whitespace-pre-line break-words ${value ? "text-foreground" : "text-text-tertiary italic"}`}>
+                      {value || "Not provided"}
+                    </dd>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => onEdit(field.name)}
+                    aria-label={`Edit ${field.summaryLabel ?? field.label}`}
+                    className="inline-flex items-center gap-1 shrink-0 font-medium text-primary hover:underline"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                    Edit
+                  </button>
+                </div>
+              );
+            })}
+        </dl>
+      </section>
+    ))}
+
+    <section className="rounded-lg border border-input p-4">
+      <h3 className="font-heading font-semibold text-base text-foreground mb-3">Recipients</h3>
+      <ul className="space-y-1.5 text-sm">
+        {recipients.map((recipient) => (
+          <li key={recipient.email} className="flex items-baseline justify-between gap-3">
+            <span className="min-w-0 truncate text-foreground">{recipient.email}</span>
+            <span className="shrink-0 text-xs text-text-tertiary">{recipient.role}</span>
+          </li>
+        ))}
+      </ul>
+    </section>
+
+    {agentProfile && (
+      <section className="rounded-lg border border-input p-4">
+        <h3 className="font-heading font-semibold text-base text-foreground mb-3">Your contact card</h3>
+        <dl className="divide-y divide-border">
+          {[
+            ["Name", agentProfile.name],
+            ["Title", agentProfile.title],
+            ["Phone", agentProfile.phone],
+            ["Office", [agentProfile.office_name, agentProfile.office_phone].filter(Boolean).join(" · ")],
+          ]
+            .filter(([, value]) => value)
+            .map(([label, value]) => (
+              <Row key={label} label={label}>
+                {value}
+              </Row>
+            ))}
+        </dl>
+      </section>
+    )}
+
+    {consent && (
+      <section className="rounded-lg border border-input p-4">
+        <h3 className="font-heading font-semibold text-base text-foreground mb-3">Buyer consent</h3>
+        <dl className="divide-y divide-border">
+          <Row label={`What you confirm (consent text v${consent.text_version})`}>{consent.text}</Row>
+          <Row label="Recorded for">{consent.agent_email}, when you send the guide</Row>
+        </dl>
+      </section>
+    )}
+  </div>
+);
+
+export default GuideReview;
@@ -0,0 +1,181 @@
+import React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Checkbox } from "@/components/ui/checkbox";
+import { BrokerageConfig, FieldOptionOverride } from "@/config/brokerages";
+import { OptionFieldDefinition, formFields, isOptionField } from "@/config/formFields";
+
+type Overrides = BrokerageConfig["fieldOverrides"];
+
+interface OptionOverridesEditorProps {
+  overrides: Overrides;
+  onChange: (overrides: Overrides) => void;
+}
+
+const optionFields = formFields.filter(isOptionField);
+
+// Drops empty lists and maps so the exported registry only carries real changes
+const compact = (override: FieldOptionOverride): FieldOptionOverride | undefined => {
+  const entries = Object.entries(override).filter(([, value]) =>
+    Array.isArray(value) ? value.length > 0 : value && typeof value === "object" ? Object.keys(value).length > 0 : value,
+  );
+  return entries.length ? Object.fromEntries(entries) : undefined;
+};
+
+const changeCount = (override: FieldOptionOverride = {}) =>
+  (override.add?.length ?? 0) +
+  (override.remove?.length ?? 0) +
+  Object.keys(override.relabel ?? {}).length +
+  (override.defaultValue === undefined ? 0 : 1);
+
+const FieldOverride: React.FC<{
+  field: OptionFieldDefinition;
+  override: FieldOptionOverride;
+  onChange: (override: FieldOptionOverride) => void;
+}> = ({ field, override, onChange }) => {
+  const removed = new Set(override.remove ?? []);
+  const added = override.add ?? [];
+  const remaining = [...field.options, ...added].filter((option) => option.value && !removed.has(option.value));
+  const defaultValue = Array.isArray(override.defaultValue) ? override.defaultValue[0] : override.defaultValue;
+
+  const setRelabel = (value: string, label: string) => {
+    const relabel = { ...override.relabel };
+    if (label.trim()) relabel[value] = label;
+    else delete relabel[value];
+    onChange({ ...override, relabel });
+  };
+
+  const setAdded = (index: number, patch: { value?: string; label?: string }) =>
+    onChange({ ...override, add: added.map((option, i) => (i === index ? { ...option, ...patch } : option)) });
+
+  return (
+    <div className="space-y-4">
+      <ul className="space-y-2">
+        {field.options.map((option) => (
+          <li key={option.value} className="flex items-center gap-3">
+            <Checkbox
+              checked={!removed.has(option.value)}
+              onCheckedChange={(checked) =>
+                onChange({
+                  ...override,
+                  remove: checked
+                    ? [...removed].filter((value) => value !== option.value)
+                    : [...removed, option.value],
+                })
+              }
+              aria-label={`Offer ${option.label}`}
+            />
+            <input
+              value={override.relabel?.[option.value] ?? ""}
+              onChange={(e) => setRelabel(option.value, e.target.value)}
+              placeholder={option.label}
+              aria-label={`Label for ${option.label}`}
+              disabled={removed.has(option.value)}
+              className="form-input h-10 disabled:opacity-50"
+            />
+          </li>
+        ))}
+        {added.map((option, index) => (
+          <li key={index} className="flex items-center gap-2">
+            <input
+              value={option.label}
+              onChange={(e) => setAdded(index, { label: e.target.value })}
+              placeholder="Label"
+              aria-label="New option label"
+              className="form-input h-10"
+            />
+            <input
+              value={option.value}
+              onChange={(e) => setAdded(index, { value: e.target.value })}
+              placeholder="payload-value"
+              aria-label="New option payload value"
+              className="form-input h-10 font-mono text-sm"
+            />
+            <button
+              type="button"
+              aria-label={`Remove ${option.label || "option"}`}
+              onClick={() => onChange({ ...override, add: added.filter((_, i) => i !== index) })}
+              className="shrink-0 p-2.5 rounded-md text-text-tertiary hover:bg-muted hover:text-destructive"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <button
+        type="button"
+        onClick={() => onChange({ ...override, add: [...added, { value: "", label: "" }] })}
+        className="inline-flex items-center gap-1.5 text-sm font-medium text-primary hover:underline"
+      >
+        <Plus className="w-4 h-4" />
+        Add option
+      </button>
+
+      <label className="block">
+        <span className="block text-sm font-medium text-text-label mb-2">Default</span>
+        <select
+          value={defaultValue ?? ""}
+          onChange={(e) =>
+            onChange({
+              ...override,
+              defaultValue: !e.target.value
+                ? undefined
+                : field.type === "selection-cards"
+                  ? [e.target.value]
+                  : e.target.value,
+            })
+          }
+          className="form-input h-10"
+        >
+          <option value="">Shared default</option>
+          {remaining.map((option) => (
+            <option key={option.value} value={option.value}>
+              {override.relabel?.[option.value] || option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+/** Per-field option changes: hide, relabel, add and set the default. */
+const OptionOverridesEditor: React.FC<OptionOverridesEditorProps> = ({ overrides = {}, onChange }) => {
+  const update = (name: string, override: FieldOptionOverride) => {
+    const next = { ...overrides };
+    const compacted = compact(override);
+    if (compacted) next[name] = compacted;
+    else delete next[name];
+    onChange(Object.keys(next).length ? next : undefined);
+  };
+
+  return (
+    <Accordion type="multiple" className="rounded-lg border border-input px-4">
+      {optionFields.map((field) => {
+        const count = changeCount(overrides[field.name]);
+        return (
+          <AccordionItem key={field.name} value={field.name} className="last:border-b-0">
+            <AccordionTrigger className="text-sm text-foreground hover:no-underline">
+              <span className="flex-1 text-left">{field.summaryLabel ?? field.label}</span>
+              {count > 0 && (
+                <span className="mr-2 px-2 py-0.5 rounded-full bg-secondary text-primary text-xs">
+                  {count} change{count === 1 ? "" : "s"}
+                </span>
+              )}
+            </AccordionTrigger>
+            <AccordionContent>
+              <FieldOverride
+                field={field}
+                override={overrides[field.name] ?? {}}
+                onChange={(override) => update(field.name, override)}
+              />
+            </AccordionContent>
+          </AccordionItem>
+        );
+      })}
+    </Accordion>
+  );
+};
+
+export default OptionOverridesEditor;
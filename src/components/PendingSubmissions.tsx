@@ -0,0 +1,104 @@
+import React from "react";
+import { formatDistanceToNow } from "date-fns";
+import { AlertCircle, CheckCircle2, CloudOff, Loader2, RotateCw, X } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useSubmissionQueue } from "@/hooks/use-submission-queue";
+import { QueuedSubmission, dismissSubmission, retrySubmission } from "@/lib/submissionQueue";
+
+const statusText = (entry: QueuedSubmission) => {
+  switch (entry.status) {
+    case "sending":
+      return "Sending...";
+    case "sent":
+      return "Sent";
+    case "failed":
+      return entry.lastError ?? "Could not be sent";
+    case "pending":
+      return entry.nextAttemptAt > Date.now()
+        ? `Retrying ${formatDistanceToNow(entry.nextAttemptAt, { addSuffix: true })}`
+        : "Waiting for connection";
+  }
+};
+
+const StatusIcon = ({ status }: { status: QueuedSubmission["status"] }) => {
+  switch (status) {
+    case "sent":
+      return <CheckCircle2 className="w-4 h-4 shrink-0 text-success" />;
+    case "failed":
+      return <AlertCircle className="w-4 h-4 shrink-0 text-destructive" />;
+    case "sending":
+      return <Loader2 className="w-4 h-4 shrink-0 text-primary animate-spin" />;
+    default:
+      return <CloudOff className="w-4 h-4 shrink-0 text-text-tertiary" />;
+  }
+};
+
+/** Header indicator for guides waiting in the offline queue. Hidden when the queue is empty. */
+const PendingSubmissions: React.FC = () => {
+  const entries = useSubmissionQueue();
+  const outstanding = entries.filter((entry) => entry.status === "pending" || entry.status === "sending").length;
+  const failed = entries.filter((entry) => entry.status === "failed").length;
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-md border text-sm font-medium hover:bg-muted ${
+            failed ? "border-destructive/50 text-destructive" : "border-input bg-card text-text-secondary"
+          }`}
+        >
+          {outstanding ? <CloudOff className="w-4 h-4" /> : failed ? <AlertCircle className="w-4 h-4" /> : <CheckCircle2 className="w-4 h-4" />}
+          {outstanding ? `${outstanding} pending` : failed ? `${failed} failed` : "All sent"}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="px-4 py-3 border-b border-border">
+          <p className="font-heading font-semibold text-sm text-foreground">Queued Guides</p>
+          <p className="text-xs text-text-tertiary">
+            {navigator.onLine ? "Retrying automatically." : "You're offline. We'll send these when you reconnect."}
+          </p>
+        </div>
+        <ul className="max-h-80 overflow-y-auto divide-y divide-border">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex items-start gap-3 px-4 py-3">
+              <StatusIcon status={entry.status} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">{entry.buyerName}</p>
+                <p className={`text-xs ${entry.status === "failed" ? "text-destructive" : "text-text-tertiary"}`}>
+                  {statusText(entry)}
+                </p>
+              </div>
+              {entry.status === "failed" && (
+                <button
+                  type="button"
+                  aria-label="Retry"
+                  onClick={() => retrySubmission(entry.id)}
+                  className="p-1 rounded text-text-tertiary hover:bg-muted"
+                >
+                  <RotateCw className="w-4 h-4" />
+                </button>
+              )}
+              {(entry.status === "sent" || entry.status === "failed") && (
+                <button
+                  type="button"
+                  aria-label="Dismiss"
+                  onClick={() => dismissSubmission(entry.id)}
+                  className="p-1 rounded text-text-tertiary hover:bg-muted"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default PendingSubmissions;
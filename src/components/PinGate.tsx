@@ -0,0 +1,166 @@
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Lock } from "lucide-react";
+import AgentEmailSignIn from "@/components/AgentEmailSignIn";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { BrokerageConfig, SignInMethod } from "@/config/brokerages";
+import { agentCodeServiceUrl } from "@/config/environment";
+import { AgentCodeService, createHttpCodeService, createLocalCodeService, signInMethods } from "@/lib/agentSignIn";
+import { IntakeSession, PIN_LENGTH, PinVerificationError, verifyPin } from "@/lib/pinAuth";
+
+interface PinGateProps {
+  brokerage: BrokerageConfig;
+  onVerified: (session: IntakeSession) => void;
+  /** Shown when the agent is sent back here because their session ran out */
+  notice?: string;
+}
+
+// Module-level so codes from the local stand-in survive the gate remounting. Its
+// secret ships in the bundle, so only the dev server may fall back to it.
+const agentCodeService: AgentCodeService | null = agentCodeServiceUrl
+  ? createHttpCodeService(agentCodeServiceUrl)
+  : !import.meta.env.DEV
+    ? null
+    : createLocalCodeService((email, code) =>
+        toast.info(`Sign-in code for ${email}: ${code}`, {
+          description: "Shown here because VITE_AGENT_CODE_SERVICE_URL isn't set.",
+          duration: 60000,
+        }),
+      );
+
+const PinEntry: React.FC<PinGateProps> = ({ brokerage, onVerified, notice }) => {
+  const [pin, setPin] = useState("");
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState("");
+
+  const submitPin = async (value: string) => {
+    setIsVerifying(true);
+    setError("");
+    try {
+      const session = await verifyPin(brokerage, value);
+      if (!session) {
+        setError("That PIN doesn't match. Please try again.");
+        setPin("");
+        return;
+      }
+      onVerified(session);
+    } catch (err) {
+      console.error("PIN verification failed:", err);
+      setError(
+        err instanceof PinVerificationError
+          ? err.message
+          : "We couldn't verify your PIN. Please check your connection and try again.",
+      );
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (pin.length === PIN_LENGTH) submitPin(pin);
+      }}
+    >
+      <div className="w-12 h-12 mx-auto mb-4 rounded-full bg-secondary flex items-center justify-center">
+        <Lock className="w-5 h-5 text-primary" />
+      </div>
+      <h1 className="font-heading font-semibold text-2xl text-foreground mb-2">
+        Enter Brokerage PIN
+      </h1>
+      <p className="text-text-tertiary text-sm mb-6">
+        {notice ?? `Ask your ${brokerage.name} admin for the ${PIN_LENGTH}-digit intake PIN.`}
+      </p>
+
+      <div className="flex justify-center mb-4">
+        <InputOTP
+          maxLength={PIN_LENGTH}
+          value={pin}
+          onChange={setPin}
+          onComplete={submitPin}
+          disabled={isVerifying}
+          inputMode="numeric"
+          pattern="^[0-9]+$"
+          autoFocus
+        >
+          <InputOTPGroup>
+            {Array.from({ length: PIN_LENGTH }).map((_, i) => (
+              <InputOTPSlot key={i} index={i} className="h-12 w-12 text-lg" />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-destructive text-sm font-medium">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isVerifying || pin.length !== PIN_LENGTH}
+        className="btn-submit flex items-center justify-center gap-2"
+      >
+        {isVerifying ? (
+          <>
+            <Loader2 className="w-5 h-5 animate-spin" />
+            <span>Verifying...</span>
+          </>
+        ) : (
+          "Continue"
+        )}
+      </button>
+    </form>
+  );
+};
+
+const switchLabels: Record<SignInMethod, string> = {
+  pin: "Use the brokerage PIN instead",
+  email: "Sign in with your email instead",
+};
+
+/** Unlocks the intake form with whichever of the brokerage's sign-in methods the agent picks. */
+const PinGate: React.FC<PinGateProps> = (props) => {
+  const { brokerage } = props;
+  // Email sign-in needs a code service, which only the dev server has without one configured
+  const methods = signInMethods(brokerage).filter((method) => method !== "email" || agentCodeService);
+  const [method, setMethod] = useState<SignInMethod | undefined>(methods[0]);
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <div className="w-full max-w-[420px] bg-card rounded-xl shadow-lg p-8 text-center animate-fade-in">
+        <img
+          src={brokerage.logoUrl}
+          alt={brokerage.name}
+          className="mx-auto mb-6"
+          style={{ maxWidth: `${brokerage.branding?.logoMaxWidth ?? 300}px`, height: "auto", objectFit: "contain" }}
+        />
+        {method === "email" && agentCodeService ? (
+          <AgentEmailSignIn {...props} service={agentCodeService} />
+        ) : method === "pin" ? (
+          <PinEntry {...props} />
+        ) : (
+          <p className="text-text-secondary text-sm">
+            Sign-in isn't available for {brokerage.name} yet. Please contact your brokerage admin.
+          </p>
+        )}
+        {methods
+          .filter((other) => other !== method)
+          .map((other) => (
+            <button
+              key={other}
+              type="button"
+              onClick={() => setMethod(other)}
+              className="mt-5 text-sm font-medium text-primary hover:underline"
+            >
+              {switchLabels[other]}
+            </button>
+          ))}
+      </div>
+    </div>
+  );
+};
+
+export default PinGate;
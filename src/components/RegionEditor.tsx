@@ -0,0 +1,320 @@
+import React, { useState } from "react";
+import { ArrowDown, ArrowUp, GripVertical, Plus, Trash2 } from "lucide-react";
+import { BrokerageConfig } from "@/config/brokerages";
+import {
+  RegionGroup,
+  RegionPosition,
+  RegionTree,
+  addRegion,
+  addState,
+  flattenRegions,
+  fromRegionTree,
+  groupRegions,
+  moveRegion,
+  moveState,
+  regionTreeProblems,
+  removeRegion,
+  removeState,
+  renameRegion,
+  renameState,
+  toRegionTree,
+} from "@/lib/regionTree";
+
+type Regions = BrokerageConfig["regions"];
+
+interface RegionEditorProps {
+  regions: Regions;
+  /** Only called with trees that form a valid config; problems are shown inline until then */
+  onChange: (regions: Regions) => void;
+}
+
+const iconButton = "p-2 rounded-md text-text-tertiary hover:bg-muted disabled:opacity-30 disabled:hover:bg-transparent";
+
+const AddRegion: React.FC<{ onAdd: (region: string) => void }> = ({ onAdd }) => {
+  const [region, setRegion] = useState("");
+  const add = () => {
+    if (!region.trim()) return;
+    onAdd(region.trim());
+    setRegion("");
+  };
+  return (
+    <div className="flex gap-2 pl-8">
+      <input
+        value={region}
+        onChange={(e) => setRegion(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            add();
+          }
+        }}
+        placeholder="Add a region"
+        aria-label="New region"
+        className="form-input h-10"
+      />
+      <button type="button" onClick={add} aria-label="Add region" className={`${iconButton} shrink-0`}>
+        <Plus className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Edits a brokerage's regions as a tree: states hold ordered regions, which
+ * can be dragged (or moved with the arrow buttons) within and between states.
+ */
+const RegionEditor: React.FC<RegionEditorProps> = ({ regions, onChange }) => {
+  const [tree, setTree] = useState<RegionTree>(() => toRegionTree(regions));
+  const [dragging, setDragging] = useState<RegionPosition | null>(null);
+  const [dropTarget, setDropTarget] = useState<RegionPosition | null>(null);
+  const [confirmingRemoval, setConfirmingRemoval] = useState<string | null>(null);
+  const problems = regionTreeProblems(tree);
+
+  const apply = (next: RegionTree) => {
+    setTree(next);
+    if (!regionTreeProblems(next).length) onChange(fromRegionTree(next));
+  };
+
+  const endDrag = () => {
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  const drop = () => {
+    if (dragging && dropTarget) apply(moveRegion(tree, dragging, dropTarget));
+    endDrag();
+  };
+
+  // Above or below the hovered row, whichever half the pointer is in
+  const dragOverRow = (e: React.DragEvent<HTMLLIElement>, groupId: string, index: number) => {
+    if (!dragging) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const after = e.clientY > rect.top + rect.height / 2;
+    setDropTarget({ groupId, index: after ? index + 1 : index });
+  };
+
+  const isDropTarget = (groupId: string, index: number) =>
+    dropTarget?.groupId === groupId && dropTarget.index === index;
+
+  const renderGroup = (group: RegionGroup, groupIndex: number) => (
+    <div
+      key={group.id}
+      onDragOver={(e) => {
+        if (!dragging) return;
+        e.preventDefault();
+        // Hovering the state itself rather than a row drops at the end of its list
+        if (dropTarget?.groupId !== group.id) setDropTarget({ groupId: group.id, index: group.regions.length });
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        drop();
+      }}
+      className={`space-y-2 ${tree.grouped ? "rounded-lg border border-input p-3" : ""} ${
+        dragging && dropTarget?.groupId === group.id ? "border-primary/60" : ""
+      }`}
+    >
+      {tree.grouped && (
+        <div className="flex items-center gap-1">
+          <input
+            value={group.state}
+            onChange={(e) => apply(renameState(tree, group.id, e.target.value))}
+            placeholder="State name"
+            aria-label="State name"
+            className="form-input h-10 font-medium"
+          />
+          <button
+            type="button"
+            aria-label={`Move ${group.state || "state"} up`}
+            disabled={groupIndex === 0}
+            onClick={() => apply(moveState(tree, group.id, -1))}
+            className={iconButton}
+          >
+            <ArrowUp className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            aria-label={`Move ${group.state || "state"} down`}
+            disabled={groupIndex === tree.groups.length - 1}
+            onClick={() => apply(moveState(tree, group.id, 1))}
+            className={iconButton}
+          >
+            <ArrowDown className="w-4 h-4" />
+          </button>
+          {confirmingRemoval === group.id ? (
+            <span className="flex items-center gap-2 pl-1 text-sm whitespace-nowrap">
+              <button
+                type="button"
+                onClick={() => {
+                  setConfirmingRemoval(null);
+                  apply(removeState(tree, group.id));
+                }}
+                className="font-medium text-destructive"
+              >
+                Remove {group.regions.length} regions
+              </button>
+              <button type="button" onClick={() => setConfirmingRemoval(null)} className="text-text-tertiary">
+                Cancel
+              </button>
+            </span>
+          ) : (
+            <button
+              type="button"
+              aria-label={`Remove ${group.state || "state"}`}
+              onClick={() =>
+                group.regions.length ? setConfirmingRemoval(group.id) : apply(removeState(tree, group.id))
+              }
+              className={`${iconButton} hover:text-destructive`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
+
+      <ul className="space-y-1">
+        {group.regions.map((region, index) => {
+          const position = { groupId: group.id, index };
+          const isDragged = dragging?.groupId === group.id && dragging.index === index;
+          return (
+            <li
+              key={`${group.id}-${index}`}
+              onDragOver={(e) => dragOverRow(e, group.id, index)}
+              className={`relative flex items-center gap-1 ${isDragged ? "opacity-40" : ""}`}
+            >
+              {isDropTarget(group.id, index) && (
+                <span className="absolute -top-0.5 left-8 right-0 h-0.5 rounded bg-primary" aria-hidden />
+              )}
+              <span
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  e.dataTransfer.setData("text/plain", region);
+                  const row = e.currentTarget.parentElement;
+                  if (row) e.dataTransfer.setDragImage(row, 16, row.offsetHeight / 2);
+                  setDragging(position);
+                }}
+                onDragEnd={endDrag}
+                title="Drag to reorder or move to another state"
+                className="p-2 cursor-grab text-text-tertiary active:cursor-grabbing"
+              >
+                <GripVertical className="w-4 h-4" />
+              </span>
+              <input
+                value={region}
+                onChange={(e) => apply(renameRegion(tree, position, e.target.value))}
+                aria-label="Region name"
+                className="form-input h-10"
+              />
+              <button
+                type="button"
+                aria-label={`Move ${region} up`}
+                disabled={index === 0}
+                onClick={() => apply(moveRegion(tree, position, { groupId: group.id, index: index - 1 }))}
+                className={iconButton}
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                aria-label={`Move ${region} down`}
+                disabled={index === group.regions.length - 1}
+                onClick={() => apply(moveRegion(tree, position, { groupId: group.id, index: index + 2 }))}
+                className={iconButton}
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              {tree.grouped && tree.groups.length > 1 && (
+                <select
+                  value={group.id}
+                  onChange={(e) =>
+                    apply(
+                      moveRegion(tree, position, {
+                        groupId: e.target.value,
+                        index: tree.groups.find((other) => other.id === e.target.value)?.regions.length ?? 0,
+                      }),
+                    )
+                  }
+                  aria-label={`State for ${region}`}
+                  className="h-10 max-w-[9rem] rounded-md border border-input bg-card px-2 text-sm text-text-secondary"
+                >
+                  {tree.groups.map((other) => (
+                    <option key={other.id} value={other.id}>
+                      {other.state || "Unnamed state"}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                type="button"
+                aria-label={`Remove ${region}`}
+                onClick={() => apply(removeRegion(tree, position))}
+                className={`${iconButton} hover:text-destructive`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          );
+        })}
+        {isDropTarget(group.id, group.regions.length) && (
+          <li className="h-0.5 ml-8 rounded bg-primary" aria-hidden />
+        )}
+      </ul>
+
+      <AddRegion onAdd={(region) => apply(addRegion(tree, group.id, region))} />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => apply(flattenRegions(tree))}
+          className={`btn-group-item ${!tree.grouped ? "btn-group-item-selected" : ""}`}
+        >
+          Flat list
+        </button>
+        <button
+          type="button"
+          onClick={() => apply(groupRegions(tree))}
+          className={`btn-group-item ${tree.grouped ? "btn-group-item-selected" : ""}`}
+        >
+          Grouped by state
+        </button>
+      </div>
+      <p className="text-xs text-text-tertiary">
+        {tree.grouped
+          ? "Agents pick a state, then one of its regions. Switching to a flat list keeps every region once."
+          : "Agents pick a region directly. Grouping puts the current list under one state you can rename."}
+      </p>
+
+      {tree.groups.map(renderGroup)}
+
+      {tree.grouped && (
+        <button
+          type="button"
+          onClick={() => apply(addState(tree))}
+          className="inline-flex items-center gap-1.5 text-sm font-medium text-primary hover:underline"
+        >
+          <Plus className="w-4 h-4" />
+          Add state
+        </button>
+      )}
+
+      {problems.length > 0 && (
+        <div className="rounded-lg border border-amber-500/50 bg-amber-50 dark:bg-amber-950/20 p-3 text-sm text-amber-800 dark:text-amber-200">
+          <p className="font-medium mb-1">Region changes apply once these are fixed:</p>
+          <ul className="list-disc list-inside space-y-0.5">
+            {problems.map((problem) => (
+              <li key={problem}>{problem}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegionEditor;
@@ -1,45 +1,116 @@
+import { FieldOption } from "@/config/formFields";
+
+/** Deployment a build runs as; resolved by config/environment */
+export type AppEnvironment = "production" | "staging" | "preview" | "development";
+
+export const APP_ENVIRONMENTS: AppEnvironment[] = ["production", "staging", "preview", "development"];
+
+/** Adjusts one option-based field (select, chips, cards) for a brokerage */
+export interface FieldOptionOverride {
+  /** Appended after the shared options unless placed by `order` */
+  add?: FieldOption[];
+  /** Option values to drop */
+  remove?: string[];
+  /** Option value → replacement label */
+  relabel?: Record<string, string>;
+  /** Option values listed first, in this order; the rest keep their order */
+  order?: string[];
+  /** Must name an option that survives `remove`; arrays for multi-select fields */
+  defaultValue?: string | string[];
+}
+
+/** Per-brokerage look and copy, applied at runtime by BrokeragePage */
+export interface BrokerageBranding {
+  /** Hex colour (#365989); drives --primary, --ring and the slider range */
+  primaryColor?: string;
+  /** Hex colour for selected-card and secondary surfaces (--accent, --secondary) */
+  accentColor?: string;
+  /** CSS font-family names; load non-default fonts via fontStylesheetUrl */
+  headingFont?: string;
+  bodyFont?: string;
+  fontStylesheetUrl?: string;
+  /** Logo max width in px (default 300) */
+  logoMaxWidth?: number;
+  faviconUrl?: string;
+  headline?: string;
+  subheadline?: string;
+  successHeadline?: string;
+  /** "{email}" is replaced with the agent's email address */
+  successMessage?: string;
+}
+
+export type FormLayout = "scroll" | "wizard";
+
+/** How agents unlock the form: the shared PIN, or a one-time code emailed to them */
+export type SignInMethod = "pin" | "email";
+
+/** A team within an office; its lead is CC'd on the team's guides */
+export interface BrokerageTeam {
+  /** Stable key referenced by AgentRosterEntry.team and sent as routing.team_id */
+  id: string;
+  name: string;
+  leadEmail?: string;
+}
+
+/** An office guides can be routed by */
+export interface BrokerageOffice {
+  /** Stable key referenced by AgentRosterEntry.office and sent as routing.office_id */
+  id: string;
+  name: string;
+  /** Office inbox CC'd on every guide from its agents */
+  routingEmail?: string;
+  phone?: string;
+  address?: string;
+  teams?: BrokerageTeam[];
+}
+
+/** An agent allowed to submit guides for a brokerage; the profile fields fill the guide's contact card */
+export interface AgentRosterEntry {
+  email: string;
+  name?: string;
+  title?: string;
+  phone?: string;
+  headshotUrl?: string;
+  /** BrokerageOffice.id */
+  office?: string;
+  /** BrokerageTeam.id within the agent's office */
+  team?: string;
+}
+
+/** One entry in the brokerage registry (public/brokerages.json), checked by lib/brokerageRegistry */
 export interface BrokerageConfig {
   name: string;
+  /** Canonical slug: the route (/<slug>) and the payload's brokerage_slug */
   slug: string;
-  pin: string;
+  /** Legacy or shorthand slugs that redirect to the canonical route */
+  aliases?: string[];
+  /**
+   * Output of `npm run hash-pin -- <slug> <pin>`, checked in the browser. For
+   * local registries only: anyone can brute-force it offline, so
+   * validate:brokerages refuses it in the shipped one.
+   */
+  pinHash?: string;
+  /** Server that checks the PIN and limits wrong guesses; takes precedence over pinHash */
+  pinVerifyUrl?: string;
   logoUrl: string;
   /** Flat array = no state selector; Record = state → regions two-step */
   regions: string[] | Record<string, string[]>;
+  /** Field name (e.g. "topPriority") → option override */
+  fieldOverrides?: Record<string, FieldOptionOverride>;
+  branding?: BrokerageBranding;
+  /** White-label webhooks per environment; unset environments use VITE_WEBHOOK_URL */
+  webhookUrls?: Partial<Record<AppEnvironment, string>>;
+  /** Status endpoints to match webhookUrls; unset environments use VITE_STATUS_URL */
+  statusUrls?: Partial<Record<AppEnvironment, string>>;
+  /** "wizard" shows one section group per page with a review step; defaults to "scroll" */
+  layout?: FormLayout;
+  /**
+   * agentEmail must use one of these domains ("dustonleddy.com") or be on
+   * `agents`; with neither set any address is accepted.
+   */
+  agentEmailDomains?: string[];
+  agents?: AgentRosterEntry[];
+  offices?: BrokerageOffice[];
+  /** Offered on the sign-in screen in this order; defaults to ["pin"] */
+  signInMethods?: SignInMethod[];
 }
-
-export const brokerages: Record<string, BrokerageConfig> = {
-  "duston-leddy": {
-    name: "Duston Leddy Real Estate",
-    slug: "duston-leddy",
-    pin: "847293",
-    logoUrl:
-      "https://fczuwbuzglvzycfvirkt.supabase.co/storage/v1/object/public/branding/duston-leddy-logo.png",
-    regions: {
-      Maine: [
-        "Southern Maine Coast",
-        "Greater Portland Area",
-        "Mid-Coast Maine",
-        "Western Maine Mountains",
-        "Northern / Central Maine",
-      ],
-      "New Hampshire": [
-        "New Hampshire Seacoast",
-        "Southern New Hampshire",
-        "New Hampshire Lakes Region",
-        "New Hampshire White Mountains",
-      ],
-    },
-  },
-  demo: {
-    name: "Oliza Real Estate",
-    slug: "oliza-real-estate",
-    pin: "483726",
-    logoUrl:
-      "https://fczuwbuzglvzycfvirkt.supabase.co/storage/v1/object/public/branding/oliza-real-estate-logo.png",
-    regions: [
-      "Mid-Coast Maine",
-      "Southern New Hampshire",
-      "Greater Portland Area",
-    ],
-  },
-};
@@ -0,0 +1,54 @@
+import { APP_ENVIRONMENTS, AppEnvironment, BrokerageConfig } from "@/config/brokerages";
+
+const N8N_WEBHOOKS = {
+  production: "https://sparkevolution.app.n8n.cloud/webhook/buyer-guide-intake-prod",
+  development: "https://sparkevolution.app.n8n.cloud/webhook/buyer-guide-intake-dev",
+};
+
+const N8N_STATUS_ENDPOINTS = {
+  production: "https://sparkevolution.app.n8n.cloud/webhook/buyer-guide-status-prod",
+  development: "https://sparkevolution.app.n8n.cloud/webhook/buyer-guide-status-dev",
+};
+
+/**
+ * VITE_APP_ENV, which `npm run build` refuses to go without
+ * (scripts/check-app-env.ts). Only the dev server and build:dev can leave it
+ * unset, and they're development.
+ */
+const resolveAppEnvironment = (): AppEnvironment => {
+  const configured = import.meta.env.VITE_APP_ENV as AppEnvironment | undefined;
+  if (configured && APP_ENVIRONMENTS.includes(configured)) {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown VITE_APP_ENV "${configured}", treating it as development`);
+  }
+  return "development";
+};
+
+export const appEnvironment = resolveAppEnvironment();
+
+export const isProduction = appEnvironment === "production";
+
+/** Default webhook for this deployment; only production talks to the prod workflow */
+export const defaultWebhookUrl =
+  import.meta.env.VITE_WEBHOOK_URL ||
+  (isProduction ? N8N_WEBHOOKS.production : N8N_WEBHOOKS.development);
+
+/** A brokerage's own endpoint for this environment wins over the deployment default. */
+export const resolveWebhookUrl = (brokerage: BrokerageConfig) =>
+  brokerage.webhookUrls?.[appEnvironment] ?? defaultWebhookUrl;
+
+/** Guide status endpoint for this deployment, polled with ?submission_id= */
+export const defaultStatusUrl =
+  import.meta.env.VITE_STATUS_URL ||
+  (isProduction ? N8N_STATUS_ENDPOINTS.production : N8N_STATUS_ENDPOINTS.development);
+
+export const resolveStatusUrl = (brokerage: BrokerageConfig) =>
+  brokerage.statusUrls?.[appEnvironment] ?? defaultStatusUrl;
+
+/** Brokerage registry JSON; the bundled static file unless an API serves it */
+export const brokerageRegistryUrl = import.meta.env.VITE_BROKERAGE_REGISTRY_URL || "/brokerages.json";
+
+/** Sends and checks emailed sign-in codes; unset, only the dev server offers email sign-in (in-browser stand-in) */
+export const agentCodeServiceUrl = import.meta.env.VITE_AGENT_CODE_SERVICE_URL;
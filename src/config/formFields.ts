@@ -0,0 +1,558 @@
+import { budgetSteps } from "@/lib/budget";
+
+/** Bump whenever a field is added, removed, renamed or its values change. */
+export const FORM_SCHEMA_VERSION = 4;
+
+/** lucide-react icon names; resolved to components by FormFieldControl */
+export const FIELD_ICON_NAMES = [
+  "Home",
+  "Building2",
+  "Building",
+  "Sparkles",
+  "Briefcase",
+  "Laptop",
+  "Monitor",
+  "Palmtree",
+  "TreePine",
+  "MapPin",
+  "HomeIcon",
+  "Zap",
+  "Waves",
+  "MountainSnow",
+] as const;
+
+export type FieldIconName = (typeof FIELD_ICON_NAMES)[number];
+
+export interface FieldOption {
+  value: string;
+  label: string;
+  description?: string;
+  icon?: FieldIconName;
+}
+
+export type FormSectionId = "agent" | "buyer" | "property" | "lifestyle" | "insights" | "delivery";
+
+export interface FormSection {
+  id: FormSectionId;
+  title?: string;
+  description?: string;
+  required?: boolean;
+}
+
+interface FieldBase {
+  /** react-hook-form field name */
+  name: string;
+  /** Key used in the webhook payload */
+  exportName: string;
+  label: string;
+  section: FormSectionId;
+  required: boolean;
+  /** Message shown when a required field is left empty */
+  requiredMessage?: string;
+  /** Short label used in the "Please complete the following fields" summary */
+  summaryLabel?: string;
+  /** Sub-label rendered between the label and the control */
+  hint?: string;
+  /** Helper text rendered below the control */
+  helpText?: string;
+  /** Kept in the schema and payload but not rendered */
+  hidden?: boolean;
+  /** Skip the field label when the section heading already names it */
+  hideLabel?: boolean;
+  /** Show a red asterisk after the label */
+  markRequired?: boolean;
+  /**
+   * Only shown, and only validated as required, while the field named here
+   * holds one of `values`; otherwise it's sent empty and ignored.
+   */
+  dependsOn?: { field: string; values: string[] };
+}
+
+export interface TextFieldDefinition extends FieldBase {
+  type: "email" | "text";
+  placeholder?: string;
+  maxLength?: number;
+  defaultValue?: string;
+  /** Shown but not editable, e.g. the agent's address after email sign-in */
+  readOnly?: boolean;
+  /** Email only: accepted domains and addresses, set per brokerage by resolveFormFields */
+  allowedDomains?: string[];
+  allowedEmails?: string[];
+}
+
+/** Free-form list of email addresses, entered one at a time as chips */
+export interface EmailListFieldDefinition extends FieldBase {
+  type: "email-list";
+  placeholder?: string;
+  /** Most addresses accepted; extra ones are refused as they're added */
+  maxItems: number;
+  defaultValue: string[];
+}
+
+export interface TextareaFieldDefinition extends FieldBase {
+  type: "textarea";
+  placeholder?: string;
+  minLength?: number;
+  maxLength: number;
+  rows: number;
+  className?: string;
+  defaultValue?: string;
+}
+
+export interface SelectFieldDefinition extends FieldBase {
+  type: "select";
+  options: FieldOption[];
+  placeholder?: string;
+  defaultValue: string;
+}
+
+/** Single-choice row of buttons, optionally with icons */
+export interface ChipGroupFieldDefinition extends FieldBase {
+  type: "chip-group";
+  options: FieldOption[];
+  /** "grid" stretches across 2/4 columns, "inline" keeps fixed-width chips */
+  layout: "grid" | "inline";
+  defaultValue: string;
+}
+
+/** Multi-choice icon cards */
+export interface SelectionCardsFieldDefinition extends FieldBase {
+  type: "selection-cards";
+  options: FieldOption[];
+  defaultValue: string[];
+}
+
+/** Single-choice stacked cards with description */
+export interface RadioCardsFieldDefinition extends FieldBase {
+  type: "radio-cards";
+  options: FieldOption[];
+  defaultValue: string;
+}
+
+/** Checkbox attesting to `consentText`; the version is recorded with the submission */
+export interface ConsentFieldDefinition extends FieldBase {
+  type: "consent";
+  consentText: string;
+  /** Bump whenever consentText changes, so past consent records still say what was agreed to */
+  consentVersion: string;
+  defaultValue: false;
+}
+
+export interface ToggleFieldDefinition extends FieldBase {
+  type: "toggle";
+  trueLabel: string;
+  falseLabel: string;
+  defaultValue: boolean;
+}
+
+/** Two-thumb slider over a list of steps; stores step indices, exports step values */
+export interface DualSliderFieldDefinition extends Omit<FieldBase, "exportName"> {
+  type: "dual-slider";
+  exportName: [string, string];
+  steps: number[];
+  format: "currency";
+  defaultValue: [number, number];
+}
+
+/** State → region picker driven by BrokerageConfig.regions */
+export interface RegionFieldDefinition extends FieldBase {
+  type: "region";
+  stateField: {
+    name: string;
+    exportName: string;
+    label: string;
+    summaryLabel?: string;
+    placeholder?: string;
+  };
+  placeholder?: string;
+}
+
+export type FieldDefinition =
+  | TextFieldDefinition
+  | EmailListFieldDefinition
+  | TextareaFieldDefinition
+  | SelectFieldDefinition
+  | ChipGroupFieldDefinition
+  | SelectionCardsFieldDefinition
+  | RadioCardsFieldDefinition
+  | ToggleFieldDefinition
+  | ConsentFieldDefinition
+  | DualSliderFieldDefinition
+  | RegionFieldDefinition;
+
+export type FieldType = FieldDefinition["type"];
+
+export type OptionFieldDefinition =
+  | SelectFieldDefinition
+  | ChipGroupFieldDefinition
+  | SelectionCardsFieldDefinition
+  | RadioCardsFieldDefinition;
+
+export const isOptionField = (field: FieldDefinition): field is OptionFieldDefinition =>
+  "options" in field;
+
+export const formSections: FormSection[] = [
+  { id: "agent" },
+  { id: "buyer", title: "About Your Buyer" },
+  { id: "property", title: "Property Preferences" },
+  { id: "lifestyle", title: "Lifestyle Priorities" },
+  {
+    id: "insights",
+    title: "Agent Insights",
+    required: true,
+    description:
+      "REQUIRED: Include why they're moving, must-haves, dealbreakers, vibe they want, and 2-3 \"human\" details.",
+  },
+  {
+    id: "delivery",
+    title: "Guide Delivery",
+    description: "The guide always comes to you. Sending it to the buyer as well needs their consent.",
+  },
+];
+
+/** A page of the wizard layout; validated with its own sub-schema before moving on */
+export interface WizardStep {
+  id: string;
+  title: string;
+  sections: FormSectionId[];
+}
+
+export const wizardSteps: WizardStep[] = [
+  { id: "basics", title: "Buyer Basics", sections: ["agent", "buyer"] },
+  { id: "property", title: "Property Preferences", sections: ["property"] },
+  { id: "lifestyle", title: "Lifestyle Priorities", sections: ["lifestyle"] },
+  { id: "insights", title: "Agent Insights", sections: ["insights"] },
+  { id: "delivery", title: "Guide Delivery", sections: ["delivery"] },
+];
+
+export const formFields: FieldDefinition[] = [
+  {
+    name: "agentEmail",
+    exportName: "agent_email",
+    label: "Your Email",
+    section: "agent",
+    type: "email",
+    required: true,
+    requiredMessage: "Please enter a valid email address",
+    placeholder: "agent@dustonleddy.com",
+  },
+  {
+    name: "additionalRecipients",
+    exportName: "additional_recipients",
+    label: "Also Send To",
+    summaryLabel: "Additional Recipients",
+    section: "agent",
+    type: "email-list",
+    required: false,
+    hint: "Optional: a co-agent or assistant who should get the guide too",
+    placeholder: "Type an email and press Enter",
+    maxItems: 5,
+    defaultValue: [],
+  },
+  {
+    name: "buyerName",
+    exportName: "buyer_name",
+    label: "Buyer's Name",
+    section: "buyer",
+    type: "text",
+    required: true,
+    requiredMessage: "Buyer's name is required",
+    placeholder: "Sarah and Mike Johnson",
+  },
+  {
+    name: "buyerSituation",
+    exportName: "buyer_situation",
+    label: "Their Situation",
+    section: "buyer",
+    type: "select",
+    required: true,
+    requiredMessage: "Please select a situation",
+    placeholder: "Select situation",
+    defaultValue: "first-time",
+    options: [
+      { value: "first-time", label: "First-Time Buyer" },
+      { value: "relocating", label: "Relocating to Area" },
+      { value: "upsizing", label: "Upsizing" },
+      { value: "downsizing", label: "Downsizing" },
+      { value: "investment", label: "Investment Property" },
+    ],
+  },
+  {
+    name: "currentHome",
+    exportName: "current_home",
+    label: "Current Living Situation",
+    section: "buyer",
+    type: "textarea",
+    required: false,
+    hint: "Optional: Where do they live now? Renting/owning? Why moving?",
+    placeholder: "Example: Renting in Boston, tired of city noise, wants yard for kids...",
+    maxLength: 300,
+    rows: 3,
+    className: "min-h-[80px] max-h-[150px]",
+  },
+  {
+    name: "targetAreaPrimary",
+    exportName: "primary_search_area",
+    label: "Which region are you interested in?",
+    summaryLabel: "Region",
+    section: "buyer",
+    type: "region",
+    required: true,
+    requiredMessage: "Please select a region",
+    placeholder: "Select a region",
+    stateField: {
+      name: "state",
+      exportName: "state",
+      label: "What state are you looking in?",
+      summaryLabel: "State",
+      placeholder: "Select a state",
+    },
+  },
+  {
+    name: "targetAreaSpecific",
+    exportName: "specific_location_notes",
+    label: "Specific Location Details",
+    section: "buyer",
+    type: "text",
+    required: false,
+    hidden: true,
+    maxLength: 100,
+    placeholder: "Any specific neighborhoods, streets, or areas?",
+  },
+  {
+    name: "commuteDestination",
+    exportName: "commute_destination",
+    label: "Commute Destination",
+    section: "buyer",
+    type: "text",
+    required: false,
+    hint: "Optional: Where does buyer need to commute?",
+    placeholder: "Example: Portsmouth Naval Shipyard, Boston, etc.",
+    maxLength: 100,
+  },
+  {
+    name: "budgetRange",
+    exportName: ["budget_min", "budget_max"],
+    label: "Budget Range",
+    section: "buyer",
+    type: "dual-slider",
+    required: true,
+    steps: budgetSteps,
+    format: "currency",
+    defaultValue: [2, 14],
+  },
+  {
+    name: "timeline",
+    exportName: "timeline",
+    label: "When are they looking to buy?",
+    summaryLabel: "Timeline",
+    section: "buyer",
+    type: "chip-group",
+    layout: "grid",
+    required: true,
+    requiredMessage: "Please select a timeline",
+    defaultValue: "3-6",
+    options: [
+      { value: "asap", label: "ASAP" },
+      { value: "1-3", label: "1-3 months" },
+      { value: "3-6", label: "3-6 months" },
+      { value: "6+", label: "6+ months" },
+    ],
+  },
+  {
+    name: "bedrooms",
+    exportName: "bedrooms",
+    label: "Bedrooms",
+    section: "property",
+    type: "chip-group",
+    layout: "inline",
+    required: true,
+    requiredMessage: "Please select bedrooms",
+    defaultValue: "3",
+    options: [
+      { value: "2", label: "2" },
+      { value: "3", label: "3" },
+      { value: "4", label: "4" },
+      { value: "5+", label: "5+" },
+    ],
+  },
+  {
+    name: "bathrooms",
+    exportName: "bathrooms",
+    label: "Bathrooms",
+    section: "property",
+    type: "chip-group",
+    layout: "inline",
+    required: true,
+    requiredMessage: "Please select bathrooms",
+    defaultValue: "2",
+    options: [
+      { value: "1", label: "1" },
+      { value: "2", label: "2" },
+      { value: "2.5", label: "2.5" },
+      { value: "3+", label: "3+" },
+    ],
+  },
+  {
+    name: "propertyTypes",
+    exportName: "property_types",
+    label: "Property Type",
+    summaryLabel: "Property Types",
+    section: "property",
+    type: "selection-cards",
+    required: true,
+    requiredMessage: "Select at least one property type",
+    hint: "Select all that apply",
+    defaultValue: ["single-family"],
+    options: [
+      { value: "single-family", label: "Single Family", icon: "Home" },
+      { value: "townhouse", label: "Townhouse", icon: "Building2" },
+      { value: "condo", label: "Condo", icon: "Building" },
+      { value: "new-construction", label: "New Construction", icon: "Sparkles" },
+    ],
+  },
+  {
+    name: "topPriority",
+    exportName: "top_priority",
+    label: "Top Priority",
+    section: "property",
+    type: "select",
+    required: true,
+    requiredMessage: "Please select a top priority",
+    markRequired: true,
+    hint: "What matters most to this buyer?",
+    placeholder: "Select priority...",
+    defaultValue: "schools",
+    options: [
+      { value: "waterfront", label: "Waterfront/Water Views" },
+      { value: "schools", label: "Top-Rated Schools" },
+      { value: "walkable", label: "Walkable Downtown" },
+      { value: "privacy", label: "Privacy/Large Lot" },
+      { value: "modern", label: "Modern/New Construction" },
+      { value: "historic", label: "Historic Charm" },
+      { value: "investment", label: "Investment Property" },
+      { value: "commute", label: "Short Commute" },
+    ],
+  },
+  {
+    name: "workSituation",
+    exportName: "work_situation",
+    label: "Buyer's Work Arrangement",
+    summaryLabel: "Work Situation",
+    section: "lifestyle",
+    type: "chip-group",
+    layout: "grid",
+    required: true,
+    requiredMessage: "Please select work arrangement",
+    helpText: "Helps us prioritize commute accessibility",
+    defaultValue: "hybrid",
+    options: [
+      { value: "office", label: "In-Office", icon: "Briefcase" },
+      { value: "hybrid", label: "Hybrid", icon: "Monitor" },
+      { value: "remote", label: "Remote", icon: "Laptop" },
+      { value: "retired", label: "Retired", icon: "Palmtree" },
+    ],
+  },
+  {
+    name: "hasChildren",
+    exportName: "has_children",
+    label: "Does this buyer have school-age children?",
+    summaryLabel: "Has Children",
+    section: "lifestyle",
+    type: "toggle",
+    required: true,
+    helpText: "Helps us emphasize school ratings",
+    trueLabel: "Yes",
+    falseLabel: "No",
+    defaultValue: false,
+  },
+  {
+    name: "lifestyleFocus",
+    exportName: "lifestyle_focus",
+    label: "Primary Lifestyle Priority",
+    summaryLabel: "Lifestyle Priority",
+    section: "lifestyle",
+    type: "radio-cards",
+    required: true,
+    requiredMessage: "Please select a lifestyle priority",
+    hint: "Pick the best fit",
+    defaultValue: "suburban",
+    options: [
+      { value: "outdoor", label: "Outdoor & Nature", description: "Parks, trails, recreation", icon: "TreePine" },
+      { value: "urban", label: "Urban & Walkable", description: "Dining, shops, entertainment", icon: "MapPin" },
+      { value: "suburban", label: "Quiet & Suburban", description: "Privacy, space, family-friendly", icon: "HomeIcon" },
+      { value: "convenient", label: "Convenient & Central", description: "Short commutes, easy access", icon: "Zap" },
+    ],
+  },
+  {
+    name: "agentInsights",
+    exportName: "agent_insights",
+    label: "Agent Insights",
+    section: "insights",
+    type: "textarea",
+    required: true,
+    hideLabel: true,
+    helpText: "These insights help us personalize neighborhood recommendations and lifestyle details.",
+    placeholder:
+      "Example: Sarah and Mike are relocating from Boston. She's a teacher who loves Prescott Park. They want a historic home with character near downtown. Deal-breaker: HOAs with strict rules. They kayak every weekend and need water access...",
+    minLength: 200,
+    maxLength: 1200,
+    rows: 4,
+    className: "min-h-[120px] max-h-[200px]",
+  },
+  {
+    name: "guideDelivery",
+    exportName: "delivery_mode",
+    label: "Who should receive the guide?",
+    summaryLabel: "Delivery",
+    section: "delivery",
+    type: "radio-cards",
+    required: true,
+    requiredMessage: "Please choose who receives the guide",
+    hideLabel: true,
+    defaultValue: "agent",
+    options: [
+      { value: "agent", label: "Just me", description: "Review it and share it yourself" },
+      { value: "agent-then-buyer", label: "Me, then my buyer", description: "Your copy arrives first, theirs follows" },
+      { value: "both", label: "Me and my buyer together", description: "Both copies go out at once" },
+    ],
+  },
+  {
+    name: "buyerEmail",
+    exportName: "buyer_email",
+    label: "Buyer's Email",
+    section: "delivery",
+    type: "email",
+    required: true,
+    requiredMessage: "Please enter the buyer's email address",
+    placeholder: "sarah@example.com",
+    dependsOn: { field: "guideDelivery", values: ["agent-then-buyer", "both"] },
+  },
+  {
+    name: "buyerPhone",
+    exportName: "buyer_phone",
+    label: "Buyer's Phone",
+    section: "delivery",
+    type: "text",
+    required: false,
+    hint: "Optional: for a text when their guide is ready",
+    placeholder: "(603) 555-0142",
+    maxLength: 30,
+    dependsOn: { field: "guideDelivery", values: ["agent-then-buyer", "both"] },
+  },
+  {
+    name: "buyerConsent",
+    exportName: "buyer_consent_given",
+    label: "Buyer Consent",
+    section: "delivery",
+    type: "consent",
+    required: true,
+    requiredMessage: "Confirm the buyer's consent to send them the guide",
+    consentText:
+      "The buyer has agreed to receive this guide from me by email, and a text when it's ready if I've given their " +
+      "phone number. They know they can ask me to stop at any time.",
+    consentVersion: "1",
+    defaultValue: false,
+    dependsOn: { field: "guideDelivery", values: ["agent-then-buyer", "both"] },
+  },
+];
@@ -0,0 +1,32 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { brokerageRegistryUrl } from "@/config/environment";
+import {
+  BrokerageRegistryError,
+  fetchBrokerageRegistry,
+  loadCachedRegistry,
+  saveCachedRegistry,
+} from "@/lib/brokerageRegistry";
+
+const STALE_TIME_MS = 5 * 60 * 1000;
+
+/**
+ * The validated brokerage registry. The last good copy on this device is
+ * shown straight away (and offline) while a fresh one loads in the background.
+ */
+export function useBrokerageRegistry() {
+  const [cached] = useState(() => loadCachedRegistry(brokerageRegistryUrl));
+  return useQuery({
+    queryKey: ["brokerage-registry", brokerageRegistryUrl],
+    queryFn: async () => {
+      const brokerages = await fetchBrokerageRegistry(brokerageRegistryUrl);
+      saveCachedRegistry(brokerageRegistryUrl, brokerages);
+      return brokerages;
+    },
+    initialData: cached?.brokerages,
+    initialDataUpdatedAt: cached?.savedAt,
+    staleTime: STALE_TIME_MS,
+    // A malformed registry stays malformed until someone fixes it; only network failures are retried
+    retry: (failureCount, error) => !(error instanceof BrokerageRegistryError) && failureCount < 3,
+  });
+}
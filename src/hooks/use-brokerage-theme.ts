@@ -0,0 +1,24 @@
+import * as React from "react";
+import { BrokerageBranding } from "@/config/brokerages";
+import { brandingCssVariables } from "@/lib/theme";
+
+/** Applies a brokerage's colour and font tokens to :root while mounted. */
+export function useBrokerageTheme(branding?: BrokerageBranding) {
+  const serialized = JSON.stringify(brandingCssVariables(branding));
+
+  React.useEffect(() => {
+    const vars: Record<string, string> = JSON.parse(serialized);
+    const root = document.documentElement;
+    const previous = Object.keys(vars).map((name) => [name, root.style.getPropertyValue(name)] as const);
+
+    for (const [name, value] of Object.entries(vars)) {
+      root.style.setProperty(name, value);
+    }
+    return () => {
+      for (const [name, value] of previous) {
+        if (value) root.style.setProperty(name, value);
+        else root.style.removeProperty(name);
+      }
+    };
+  }, [serialized]);
+}
@@ -0,0 +1,232 @@
+import * as React from "react";
+import { UseFormReturn } from "react-hook-form";
+import { FormValues } from "@/lib/formSchema";
+import {
+  FormDraft,
+  createDraftId,
+  deleteDraft,
+  duplicateDraft,
+  hasDraftContent,
+  loadDrafts,
+  mergeDraftValues,
+  reissueDraftId,
+  renameDraft,
+  saveDraft,
+} from "@/lib/drafts";
+
+const AUTOSAVE_DELAY_MS = 500;
+
+/**
+ * Autosaves form values into named local-storage drafts per brokerage slug.
+ * The most recent draft found on load is held in `pendingDraft` (and autosave
+ * paused) until the agent resumes it or starts fresh, so nothing is written
+ * over a draft the agent hasn't seen. Starting fresh keeps the old draft.
+ * With `enabled` false (admin previews) nothing is offered or saved.
+ */
+export function useFormDrafts(
+  slug: string,
+  form: UseFormReturn<FormValues>,
+  defaultValues: FormValues,
+  enabled = true,
+) {
+  const [drafts, setDrafts] = React.useState<FormDraft[]>(() => (enabled ? loadDrafts(slug) : []));
+  const [pendingDraft, setPendingDraft] = React.useState<FormDraft | null>(() => {
+    if (!enabled) return null;
+    const latest = loadDrafts(slug)[0];
+    return latest && hasDraftContent(mergeDraftValues(defaultValues, latest), defaultValues) ? latest : null;
+  });
+  const [activeDraftId, setActiveDraftId] = React.useState<string | null>(null);
+
+  // Refs so the watch subscription needn't be recreated on every switch
+  const activeIdRef = React.useRef<string | null>(null);
+  const lastSavedRef = React.useRef<string>(JSON.stringify(defaultValues));
+  const flushRef = React.useRef<() => void>(() => {});
+  const discardRef = React.useRef<() => void>(() => {});
+
+  const refresh = React.useCallback(() => setDrafts(loadDrafts(slug)), [slug]);
+
+  const activate = React.useCallback((id: string | null, values: FormValues) => {
+    activeIdRef.current = id;
+    lastSavedRef.current = JSON.stringify(values);
+    setActiveDraftId(id);
+  }, []);
+
+  React.useEffect(() => {
+    if (pendingDraft || !enabled) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let latest: FormValues | null = null;
+    const flush = () => {
+      clearTimeout(timer);
+      const values = latest;
+      latest = null;
+      if (!values || !hasDraftContent(values, defaultValues)) return;
+      const serialized = JSON.stringify(values);
+      if (serialized === lastSavedRef.current) return;
+
+      if (!activeIdRef.current) {
+        activeIdRef.current = createDraftId();
+        setActiveDraftId(activeIdRef.current);
+      }
+      saveDraft(slug, activeIdRef.current, values);
+      lastSavedRef.current = serialized;
+      refresh();
+    };
+    flushRef.current = flush;
+    discardRef.current = () => {
+      clearTimeout(timer);
+      latest = null;
+    };
+
+    const subscription = form.watch((values) => {
+      latest = values as FormValues;
+      clearTimeout(timer);
+      timer = setTimeout(flush, AUTOSAVE_DELAY_MS);
+    });
+    // A refresh inside the debounce window would otherwise drop the last keystrokes
+    window.addEventListener("pagehide", flush);
+
+    return () => {
+      subscription.unsubscribe();
+      window.removeEventListener("pagehide", flush);
+      flush();
+    };
+  }, [slug, form, defaultValues, pendingDraft, enabled, refresh]);
+
+  /** Saves pending edits to the current draft, then loads another into the form. */
+  const openDraft = React.useCallback(
+    (draft: FormDraft) => {
+      flushRef.current();
+      const values = mergeDraftValues(defaultValues, draft);
+      activate(draft.id, values);
+      form.reset(values);
+      setPendingDraft(null);
+    },
+    [form, defaultValues, activate],
+  );
+
+  const resumeDraft = React.useCallback(() => {
+    if (pendingDraft) openDraft(pendingDraft);
+  }, [pendingDraft, openDraft]);
+
+  /** Blank form; existing drafts stay in the drawer. */
+  const startNewDraft = React.useCallback(() => {
+    flushRef.current();
+    activate(null, defaultValues);
+    form.reset(defaultValues);
+    setPendingDraft(null);
+  }, [form, defaultValues, activate]);
+
+  const duplicate = React.useCallback(
+    (id: string) => {
+      flushRef.current();
+      duplicateDraft(slug, id);
+      refresh();
+    },
+    [slug, refresh],
+  );
+
+  const rename = React.useCallback(
+    (id: string, name: string) => {
+      renameDraft(slug, id, name);
+      refresh();
+    },
+    [slug, refresh],
+  );
+
+  const remove = React.useCallback(
+    (id: string) => {
+      deleteDraft(slug, id);
+      if (id === activeIdRef.current) {
+        activate(null, defaultValues);
+        form.reset(defaultValues);
+      }
+      if (id === pendingDraft?.id) {
+        setPendingDraft(null);
+      }
+      refresh();
+    },
+    [slug, form, defaultValues, pendingDraft, activate, refresh],
+  );
+
+  /**
+   * The active draft's id, created if the form hasn't autosaved yet. It doubles
+   * as the submission ID, so every retry of one form fill — including after a
+   * refresh — carries the same idempotency key, until {@link rotateActiveDraftId}.
+   */
+  const ensureActiveDraftId = React.useCallback(() => {
+    flushRef.current();
+    if (!activeIdRef.current) {
+      activeIdRef.current = createDraftId();
+      setActiveDraftId(activeIdRef.current);
+    }
+    return activeIdRef.current;
+  }, []);
+
+  /**
+   * Call when the webhook rejects the guide for good. The agent will edit and
+   * resend it, and a webhook honouring the old key would replay the rejection
+   * or drop the corrected payload, so the draft moves to a new id.
+   */
+  const rotateActiveDraftId = React.useCallback(() => {
+    flushRef.current();
+    if (!activeIdRef.current) return;
+    activeIdRef.current = reissueDraftId(slug, activeIdRef.current);
+    setActiveDraftId(activeIdRef.current);
+    refresh();
+  }, [slug, refresh]);
+
+  /** Call after a successful submission; drafts are kept on any failure. */
+  const completeActiveDraft = React.useCallback(() => {
+    if (activeIdRef.current) {
+      deleteDraft(slug, activeIdRef.current);
+    }
+    activate(null, defaultValues);
+    refresh();
+  }, [slug, defaultValues, activate, refresh]);
+
+  /**
+   * Loads the next guide's starting values, e.g. with the agent who just sent
+   * one prefilled. A plain reset would be autosaved as a new draft: the values
+   * differ from the old defaults, and new defaults re-run the autosave effect,
+   * which flushes on cleanup.
+   */
+  const startNextGuide = React.useCallback(
+    (values: FormValues) => {
+      form.reset(values);
+      discardRef.current();
+      activate(null, values);
+    },
+    [form, activate],
+  );
+
+  /**
+   * Saves pending edits and clears the form while keeping the draft, for
+   * submissions handed to the offline queue. Returns the kept draft's id.
+   */
+  const detachActiveDraft = React.useCallback(() => {
+    flushRef.current();
+    const id = activeIdRef.current;
+    activate(null, defaultValues);
+    refresh();
+    return id;
+  }, [defaultValues, activate, refresh]);
+
+  return {
+    drafts,
+    activeDraftId,
+    pendingDraft,
+    resumeDraft,
+    startNewDraft,
+    openDraft,
+    duplicate,
+    rename,
+    remove,
+    ensureActiveDraftId,
+    rotateActiveDraftId,
+    completeActiveDraft,
+    detachActiveDraft,
+    startNextGuide,
+    refresh,
+  };
+}
@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+import { GuideStatusReport, fetchGuideStatus, isFinalStatus } from "@/lib/guideStatus";
+import { QueuedSubmission } from "@/lib/submissionQueue";
+
+const POLL_INTERVAL_MS = 10000;
+
+/**
+ * Polls a guide's status until it is emailed or failed. While the guide is
+ * still in this device's offline queue the server has never seen it, so the
+ * queue entry's state is reported instead.
+ */
+export function useGuideStatus(statusUrl: string, submissionId: string, queued?: QueuedSubmission) {
+  const waitingLocally = !!queued && queued.status !== "sent";
+  const query = useQuery({
+    queryKey: ["guide-status", statusUrl, submissionId],
+    queryFn: () => fetchGuideStatus(statusUrl, submissionId),
+    enabled: !waitingLocally,
+    refetchInterval: (current) => (isFinalStatus(current.state.data?.status) ? false : POLL_INTERVAL_MS),
+  });
+
+  const localReport: GuideStatusReport | undefined = waitingLocally
+    ? queued.status === "failed"
+      ? { status: "failed", message: queued.lastError ?? "Could not be sent from this device" }
+      : { status: "queued", message: "Waiting to send from this device" }
+    : undefined;
+
+  return {
+    report: localReport ?? query.data,
+    isChecking: !waitingLocally && query.isFetching,
+    error: waitingLocally ? null : query.error,
+    refetch: query.refetch,
+  };
+}
@@ -0,0 +1,37 @@
+import * as React from "react";
+import { toast } from "sonner";
+import {
+  QueuedSubmission,
+  listQueued,
+  startSubmissionQueue,
+  subscribeToQueue,
+} from "@/lib/submissionQueue";
+
+/** Live view of the offline submission queue; toasts when a queued guide settles. */
+export function useSubmissionQueue() {
+  const [entries, setEntries] = React.useState<QueuedSubmission[]>([]);
+
+  React.useEffect(() => {
+    startSubmissionQueue();
+    listQueued().then(setEntries).catch(() => setEntries([]));
+
+    return subscribeToQueue((event) => {
+      if (event.type === "change") {
+        setEntries(event.entries);
+        return;
+      }
+      const { entry } = event;
+      if (entry.status === "sent") {
+        toast.success(`Guide for ${entry.buyerName} was sent`, {
+          description: `We'll email it to ${entry.agentEmail} in 2-3 minutes.`,
+        });
+      } else {
+        toast.error(`Guide for ${entry.buyerName} could not be sent`, {
+          description: entry.lastError,
+        });
+      }
+    });
+  }, []);
+
+  return entries;
+}
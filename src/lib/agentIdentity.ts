@@ -0,0 +1,172 @@
+import { AgentRosterEntry, BrokerageConfig } from "@/config/brokerages";
+
+/** Field the brokerage's agent rules and the remembered agent apply to */
+export const AGENT_EMAIL_FIELD = "agentEmail";
+
+const MAX_REMEMBERED = 5;
+
+const storageKey = (slug: string) => `oliza:agents:${slug}`;
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const emailDomain = (email: string) => normalizeEmail(email).split("@").pop() ?? "";
+
+/** True when `email` uses an allowed domain or is listed; no rules means anyone. */
+export const isAllowedAgentEmail = (email: string, domains: string[] = [], emails: string[] = []) => {
+  if (!domains.length && !emails.length) return true;
+  const normalized = normalizeEmail(email);
+  return (
+    domains.some((domain) => emailDomain(normalized) === domain.toLowerCase()) ||
+    emails.some((allowed) => normalizeEmail(allowed) === normalized)
+  );
+};
+
+/** Shown when agentEmail fails the brokerage's rules. */
+export const agentEmailMessage = (domains: string[] = [], emails: string[] = []) => {
+  if (!domains.length) return "This email isn't on the brokerage's agent list";
+  const allowed = domains.map((domain) => `@${domain}`).join(" or ");
+  return `Use your ${allowed} email address${emails.length ? " or one on the agent list" : ""}`;
+};
+
+export const hasAgentRules = (brokerage: BrokerageConfig) =>
+  !!brokerage.agentEmailDomains?.length || !!brokerage.agents?.length;
+
+export const agentRosterEmails = (brokerage: BrokerageConfig) => brokerage.agents?.map((agent) => agent.email) ?? [];
+
+/** {@link isAllowedAgentEmail} with the brokerage's own rules */
+export const isBrokerageAgent = (brokerage: BrokerageConfig, email: string) =>
+  isAllowedAgentEmail(email, brokerage.agentEmailDomains, agentRosterEmails(brokerage));
+
+export const findRosterAgent = (brokerage: BrokerageConfig, email: string) =>
+  brokerage.agents?.find((agent) => normalizeEmail(agent.email) === normalizeEmail(email));
+
+/** The office and team an agent belongs to, when their roster entry names them */
+export const findAgentPlacement = (brokerage: BrokerageConfig, agent: AgentRosterEntry) => {
+  const office = brokerage.offices?.find((candidate) => candidate.id === agent.office);
+  const team = office?.teams?.find((candidate) => candidate.id === agent.team);
+  return { office, team };
+};
+
+/**
+ * The agent's contact card and routing, sent as `agent_profile` and
+ * `agent_routing`. Agents accepted by domain alone have no roster entry, so
+ * both are null and the workflow falls back to agent_email.
+ */
+export const buildAgentPayload = (brokerage: BrokerageConfig, email: string) => {
+  const agent = findRosterAgent(brokerage, email);
+  if (!agent) return { agent_profile: null, agent_routing: null };
+  const { office, team } = findAgentPlacement(brokerage, agent);
+  const agentEmail = normalizeEmail(agent.email);
+  // Empty optional text is sent as "" rather than omitted, like the form fields
+  return {
+    agent_profile: {
+      name: agent.name ?? "",
+      email: agentEmail,
+      title: agent.title ?? "",
+      phone: agent.phone ?? "",
+      headshot_url: agent.headshotUrl ?? "",
+      office_name: office?.name ?? "",
+      office_phone: office?.phone ?? "",
+      office_address: office?.address ?? "",
+    },
+    agent_routing: {
+      office_id: office?.id ?? "",
+      office_name: office?.name ?? "",
+      team_id: team?.id ?? "",
+      team_name: team?.name ?? "",
+      // Team lead first, then the office inbox; never the agent themselves
+      cc: [
+        ...new Set(
+          [team?.leadEmail, office?.routingEmail]
+            .filter((address): address is string => !!address)
+            .map(normalizeEmail),
+        ),
+      ].filter((address) => address !== agentEmail),
+    },
+  };
+};
+
+/** Addresses a guide goes to regardless of the form: the agent and their routing CCs */
+export const routedRecipients = (brokerage: BrokerageConfig, agentEmail: string) => [
+  normalizeEmail(agentEmail),
+  ...(buildAgentPayload(brokerage, agentEmail).agent_routing?.cc ?? []),
+];
+
+/** Normalizes and deduplicates added recipients, dropping any who already get the guide. */
+export const extraRecipients = (emails: string[], alreadyReceiving: string[]) => {
+  const seen = new Set(alreadyReceiving.map(normalizeEmail));
+  return emails.map(normalizeEmail).filter((email) => {
+    if (!email || seen.has(email)) return false;
+    seen.add(email);
+    return true;
+  });
+};
+
+export interface GuideRecipient {
+  email: string;
+  /** Why they get it, e.g. "You" or "Team lead, North Shore Team" */
+  role: string;
+}
+
+/**
+ * Everyone a guide is emailed to: the agent, the buyer when it's delivered to
+ * them, then the team lead and office inbox from routing, then the agent's
+ * own additions. Each address appears once, under the first role that
+ * brought it in.
+ */
+export const guideRecipients = (
+  brokerage: BrokerageConfig,
+  agentEmail: string,
+  additional: string[] = [],
+  buyer?: GuideRecipient,
+) => {
+  const agent = findRosterAgent(brokerage, agentEmail);
+  const { office, team } = agent ? findAgentPlacement(brokerage, agent) : {};
+  const candidates: GuideRecipient[] = [
+    { email: agentEmail, role: "You" },
+    ...(buyer ? [buyer] : []),
+    ...(team?.leadEmail ? [{ email: team.leadEmail, role: `Team lead, ${team.name}` }] : []),
+    ...(office?.routingEmail ? [{ email: office.routingEmail, role: `${office.name} office` }] : []),
+    ...additional.map((email) => ({ email, role: "Also sent to" })),
+  ];
+  const seen = new Set<string>();
+  return candidates
+    .map((recipient) => ({ ...recipient, email: normalizeEmail(recipient.email) }))
+    .filter((recipient) => {
+      if (!recipient.email || seen.has(recipient.email)) return false;
+      seen.add(recipient.email);
+      return true;
+    });
+};
+
+const readAgents = (slug: string): string[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(storageKey(slug)) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter((email) => typeof email === "string") : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeAgents = (slug: string, agents: string[]) => {
+  try {
+    localStorage.setItem(storageKey(slug), JSON.stringify(agents.slice(0, MAX_REMEMBERED)));
+  } catch (error) {
+    console.warn("Could not remember the agent:", error);
+  }
+};
+
+/**
+ * Agents who have submitted from this device, most recent first, minus any
+ * the brokerage no longer accepts (a roster change shouldn't prefill them).
+ */
+export const loadRememberedAgents = (brokerage: BrokerageConfig) =>
+  readAgents(brokerage.slug).filter((email) => isBrokerageAgent(brokerage, email));
+
+export const rememberAgent = (slug: string, email: string) => {
+  const normalized = normalizeEmail(email);
+  writeAgents(slug, [normalized, ...readAgents(slug).filter((existing) => existing !== normalized)]);
+};
+
+export const forgetAgent = (slug: string, email: string) =>
+  writeAgents(slug, readAgents(slug).filter((existing) => existing !== normalizeEmail(email)));
@@ -0,0 +1,155 @@
+import { BrokerageConfig, SignInMethod } from "@/config/brokerages";
+import { agentEmailMessage, agentRosterEmails, isBrokerageAgent, normalizeEmail } from "@/lib/agentIdentity";
+import { fromBase64Url, hmacSha256, timingSafeEqual, toBase64Url } from "@/lib/crypto";
+import { IntakeSession, SESSION_TTL_MS, readIssuedSession } from "@/lib/pinAuth";
+
+/** Digits in an emailed sign-in code */
+export const SIGN_IN_CODE_LENGTH = 6;
+
+const CODE_TTL_MS = 10 * 60 * 1000;
+const MAX_CODE_ATTEMPTS = 5;
+
+// Signs sessions from the local stand-in. It ships in the bundle, so those
+// sessions prove nothing; only the dev server uses the stand-in.
+const LOCAL_SECRET = "oliza-local-sign-in";
+
+export const signInMethods = (brokerage: BrokerageConfig): SignInMethod[] => brokerage.signInMethods ?? ["pin"];
+
+/** A refusal the agent can act on (address not allowed, too many tries); the message is shown as is */
+export class AgentSignInError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AgentSignInError";
+  }
+}
+
+/**
+ * Issues and checks one-time sign-in codes. Deployments plug in a remote
+ * service ({@link createHttpCodeService}); development falls back to
+ * {@link createLocalCodeService}.
+ */
+export interface AgentCodeService {
+  /** Sends a code to `email`; rejects with AgentSignInError when the address is refused */
+  requestCode: (brokerage: BrokerageConfig, email: string) => Promise<void>;
+  /** Resolves null for a wrong or expired code; rejects on network errors */
+  verifyCode: (brokerage: BrokerageConfig, email: string, code: string) => Promise<IntakeSession | null>;
+}
+
+const readMessage = async (response: Response) => {
+  try {
+    return ((await response.json()) as { message?: string })?.message;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Remote code service contract, relative to `baseUrl`:
+ * POST /request { brokerage_slug, email } answers 2xx once the code is sent,
+ * or 4xx { message } to refuse the address. POST /verify { brokerage_slug,
+ * email, code } answers with a session like the PIN verifier; 401/403 mean a
+ * wrong code and 429 too many tries.
+ */
+export const createHttpCodeService = (baseUrl: string): AgentCodeService => {
+  const post = (path: string, body: Record<string, string>) =>
+    fetch(`${baseUrl.replace(/\/+$/, "")}/${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  return {
+    requestCode: async (brokerage, email) => {
+      const response = await post("request", { brokerage_slug: brokerage.slug, email: normalizeEmail(email) });
+      if (response.ok) return;
+      if (response.status >= 400 && response.status < 500) {
+        throw new AgentSignInError((await readMessage(response)) ?? "We couldn't send a code to that address.");
+      }
+      throw new Error(`Sign-in code request failed with status ${response.status}`);
+    },
+    verifyCode: async (brokerage, email, code) => {
+      const response = await post("verify", { brokerage_slug: brokerage.slug, email: normalizeEmail(email), code });
+      if (response.status === 401 || response.status === 403) return null;
+      if (response.status === 429) {
+        throw new AgentSignInError((await readMessage(response)) ?? "Too many tries. Request a new code.");
+      }
+      if (!response.ok) {
+        throw new Error(`Sign-in code verification failed with status ${response.status}`);
+      }
+      return { ...(await readIssuedSession(response)), agentEmail: normalizeEmail(email) };
+    },
+  };
+};
+
+const randomCode = () =>
+  String(crypto.getRandomValues(new Uint32Array(1))[0] % 10 ** SIGN_IN_CODE_LENGTH).padStart(
+    SIGN_IN_CODE_LENGTH,
+    "0",
+  );
+
+const localSigningKey = (slug: string, email: string, expiresAt: number) =>
+  hmacSha256(LOCAL_SECRET, `${slug}.${email}.${expiresAt}.signing`);
+
+const issueLocalAgentSession = async (slug: string, email: string): Promise<IntakeSession> => {
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+  const proof = await hmacSha256(LOCAL_SECRET, `${slug}.${email}.${expiresAt}`);
+  return {
+    token: toBase64Url(JSON.stringify({ slug, email, exp: expiresAt, proof })),
+    expiresAt,
+    signingKey: await localSigningKey(slug, email, expiresAt),
+    agentEmail: email,
+  };
+};
+
+/**
+ * Backend side of local stand-in sessions, for the mock webhook: checks the
+ * token and recovers the agent and signing key. Resolves null for anything else.
+ */
+export const openLocalAgentToken = async (token: string) => {
+  let claims: { slug?: unknown; email?: unknown; exp?: unknown; proof?: unknown };
+  try {
+    claims = JSON.parse(fromBase64Url(token));
+  } catch {
+    return null;
+  }
+  const { slug, email, exp, proof } = claims;
+  if (typeof slug !== "string" || typeof email !== "string" || typeof exp !== "number" || typeof proof !== "string") {
+    return null;
+  }
+  if (!timingSafeEqual(await hmacSha256(LOCAL_SECRET, `${slug}.${email}.${exp}`), proof)) {
+    return null;
+  }
+  return { slug, email, expiresAt: exp, signingKey: await localSigningKey(slug, email, exp) };
+};
+
+/**
+ * Development stand-in that keeps codes in memory and hands them to
+ * `deliver` instead of emailing them. It applies the brokerage's agent
+ * rules the way a real service should.
+ */
+export const createLocalCodeService = (deliver: (email: string, code: string) => void): AgentCodeService => {
+  const pending = new Map<string, { code: string; expiresAt: number; attempts: number }>();
+  const key = (brokerage: BrokerageConfig, email: string) => `${brokerage.slug}:${normalizeEmail(email)}`;
+
+  return {
+    requestCode: async (brokerage, email) => {
+      if (!isBrokerageAgent(brokerage, email)) {
+        throw new AgentSignInError(agentEmailMessage(brokerage.agentEmailDomains, agentRosterEmails(brokerage)));
+      }
+      const code = randomCode();
+      pending.set(key(brokerage, email), { code, expiresAt: Date.now() + CODE_TTL_MS, attempts: 0 });
+      deliver(normalizeEmail(email), code);
+    },
+    verifyCode: async (brokerage, email, code) => {
+      const entry = pending.get(key(brokerage, email));
+      if (!entry || entry.expiresAt < Date.now()) return null;
+      if (++entry.attempts > MAX_CODE_ATTEMPTS) {
+        pending.delete(key(brokerage, email));
+        throw new AgentSignInError("Too many tries. Request a new code.");
+      }
+      if (!timingSafeEqual(entry.code, code)) return null;
+      pending.delete(key(brokerage, email));
+      return issueLocalAgentSession(brokerage.slug, normalizeEmail(email));
+    },
+  };
+};
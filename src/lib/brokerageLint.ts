@@ -0,0 +1,258 @@
+import { BrokerageConfig } from "@/config/brokerages";
+import { formFields, isOptionField } from "@/config/formFields";
+import { hasAgentRules, normalizeEmail } from "@/lib/agentIdentity";
+import { signInMethods } from "@/lib/agentSignIn";
+import { PIN_LENGTH, hashPin } from "@/lib/pinAuth";
+
+export type LintSeverity = "error" | "warning";
+
+/** A problem the registry schema can't see; `path` is relative to the brokerage config */
+export interface BrokerageLintIssue {
+  slug: string;
+  path: string;
+  severity: LintSeverity;
+  message: string;
+}
+
+const MIN_PBKDF2_ITERATIONS = 100000;
+
+/** PINs an outsider would try first: repeats, runs and common patterns */
+const GUESSABLE_PINS = [
+  ...Array.from({ length: 10 }, (_, digit) => String(digit).repeat(PIN_LENGTH)),
+  ...Array.from({ length: 10 - PIN_LENGTH + 1 }, (_, start) =>
+    Array.from({ length: PIN_LENGTH }, (_, i) => start + i).join(""),
+  ),
+  ...Array.from({ length: 10 - PIN_LENGTH + 1 }, (_, start) =>
+    Array.from({ length: PIN_LENGTH }, (_, i) => 9 - start - i).join(""),
+  ),
+  "123123",
+  "121212",
+  "112233",
+  "111222",
+  "101010",
+  "123321",
+  "159753",
+  "147258",
+  "696969",
+  "102030",
+].filter((pin) => pin.length === PIN_LENGTH);
+
+const normalizeRegion = (region: string) => region.trim().toLowerCase();
+
+const checkUrl = (value: string, { allowPath = false, allowHttp = false } = {}) => {
+  if (allowPath && value.startsWith("/") && !value.startsWith("//")) return undefined;
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return allowPath
+      ? "must be an absolute https URL or a path starting with /"
+      : "must be an absolute https URL";
+  }
+  if (url.protocol === "https:") return undefined;
+  if (url.protocol === "http:" && allowHttp) return undefined;
+  return `must use https, not ${url.protocol.replace(":", "")}`;
+};
+
+/**
+ * Rules that need more context than the schema has: other brokerages, the
+ * shared field definitions, or judgement calls like duplicate regions.
+ * Expects configs that already passed the registry schema.
+ */
+export const lintBrokerage = (config: BrokerageConfig, registry: BrokerageConfig[] = [config]) => {
+  const issues: BrokerageLintIssue[] = [];
+  const report = (severity: LintSeverity, path: string, message: string) =>
+    issues.push({ slug: config.slug, path, severity, message });
+
+  // Regions: the payload carries the label, so repeats make guides ambiguous
+  const groups = Array.isArray(config.regions)
+    ? [{ path: "regions", regions: config.regions }]
+    : Object.entries(config.regions).map(([state, regions]) => ({ path: `regions.${state}`, regions }));
+  const regionStates = new Map<string, string>();
+  groups.forEach(({ path, regions }) => {
+    const seen = new Set<string>();
+    regions.forEach((region, index) => {
+      const key = normalizeRegion(region);
+      if (seen.has(key)) {
+        report("error", `${path}[${index}]`, `"${region}" is listed twice`);
+        return;
+      }
+      seen.add(key);
+      const otherState = regionStates.get(key);
+      if (otherState !== undefined) {
+        report("warning", `${path}[${index}]`, `"${region}" is also listed under ${otherState}`);
+      }
+      regionStates.set(key, path.replace(/^regions\.?/, ""));
+    });
+  });
+  if (!Array.isArray(config.regions)) {
+    const states = Object.keys(config.regions);
+    states.forEach((state) => {
+      if (!state.trim()) report("error", "regions", "A state group has an empty name");
+    });
+    if (states.length === 1) {
+      report("warning", "regions", "Only one state group; a flat list skips the needless state selector");
+    }
+  }
+
+  // URLs the browser loads or posts to
+  const logoProblem = checkUrl(config.logoUrl, { allowPath: true });
+  if (logoProblem) report("error", "logoUrl", `Logo URL ${logoProblem}`);
+  if (config.branding?.faviconUrl) {
+    const problem = checkUrl(config.branding.faviconUrl, { allowPath: true });
+    if (problem) report("error", "branding.faviconUrl", `Favicon URL ${problem}`);
+  }
+  if (config.pinVerifyUrl) {
+    const problem = checkUrl(config.pinVerifyUrl);
+    if (problem) report("error", "pinVerifyUrl", `PIN verifier ${problem}`);
+  }
+  (["webhookUrls", "statusUrls"] as const).forEach((key) => {
+    Object.entries(config[key] ?? {}).forEach(([environment, url]) => {
+      const problem = checkUrl(url, { allowHttp: environment === "development" });
+      if (problem) report("error", `${key}.${environment}`, `URL ${problem}`);
+    });
+  });
+
+  // Slugs: aliases only redirect, so one that repeats the slug does nothing
+  config.aliases?.forEach((alias, index) => {
+    if (alias === config.slug) report("warning", `aliases[${index}]`, "Alias repeats the canonical slug");
+  });
+
+  // PIN hash: salted with the slug, so a hash copied from another brokerage can never match
+  if (config.pinHash) {
+    const [, iterations, digest] = config.pinHash.split("$");
+    if (!/^[0-9a-f]{64}$/.test(digest ?? "")) {
+      report("error", "pinHash", "Not a pbkdf2-sha256 hash; generate one with npm run hash-pin");
+    } else if (!(Number(iterations) >= MIN_PBKDF2_ITERATIONS)) {
+      report(
+        "error",
+        "pinHash",
+        `Uses ${iterations} iterations; re-hash with npm run hash-pin (${MIN_PBKDF2_ITERATIONS}+)`,
+      );
+    }
+    const twin = registry.find((other) => other !== config && other.pinHash === config.pinHash);
+    if (twin) {
+      report("error", "pinHash", `Same hash as ${twin.slug}; a hash only matches the slug it was generated for`);
+    }
+  }
+  // The registry is public and a 6-digit PIN is cheap to brute-force offline; only a server can limit guesses
+  if (config.pinHash && config.pinVerifyUrl) {
+    report("error", "pinHash", "Publishes a hash of the PIN the verifier checks; remove it");
+  } else if (config.pinHash) {
+    report("error", "pinHash", "Checked in the browser against a public hash, which protects nothing; set pinVerifyUrl");
+  }
+
+  // Agent rules: repeats are harmless but usually mean a half-finished edit
+  const domains = new Set<string>();
+  config.agentEmailDomains?.forEach((domain, index) => {
+    if (domains.has(domain)) report("warning", `agentEmailDomains[${index}]`, `"${domain}" is listed twice`);
+    domains.add(domain);
+  });
+  const rosterEmails = new Set<string>();
+  config.agents?.forEach((agent, index) => {
+    const email = normalizeEmail(agent.email);
+    if (rosterEmails.has(email)) report("warning", `agents[${index}].email`, `${agent.email} is listed twice`);
+    rosterEmails.add(email);
+    if (domains.has(email.split("@").pop() ?? "")) {
+      report("warning", `agents[${index}].email`, `${agent.email} is already allowed by its domain`);
+    }
+  });
+
+  // Offices and teams: an agent pointing at a missing one would be routed nowhere
+  const officeIds = new Set<string>();
+  config.offices?.forEach((office, index) => {
+    if (officeIds.has(office.id)) report("error", `offices[${index}].id`, `"${office.id}" is used by another office`);
+    officeIds.add(office.id);
+    const teamIds = new Set<string>();
+    office.teams?.forEach((team, teamIndex) => {
+      if (teamIds.has(team.id)) {
+        report("error", `offices[${index}].teams[${teamIndex}].id`, `"${team.id}" is used by another team`);
+      }
+      teamIds.add(team.id);
+    });
+  });
+  config.agents?.forEach((agent, index) => {
+    const path = `agents[${index}]`;
+    if (agent.headshotUrl) {
+      const problem = checkUrl(agent.headshotUrl);
+      if (problem) report("error", `${path}.headshotUrl`, `Headshot URL ${problem}`);
+    }
+    if (agent.team && !agent.office) {
+      report("error", `${path}.team`, "A team only applies within an office; set office too");
+      return;
+    }
+    if (!agent.office) return;
+    const office = config.offices?.find((candidate) => candidate.id === agent.office);
+    if (!office) {
+      report("error", `${path}.office`, `No office has the id "${agent.office}"`);
+    } else if (agent.team && !office.teams?.some((team) => team.id === agent.team)) {
+      report("error", `${path}.team`, `${office.name} has no team with the id "${agent.team}"`);
+    }
+  });
+
+  // Sign-in: email sign-in only adds accountability if it's limited to the brokerage's agents
+  const methods = signInMethods(config);
+  if (methods.includes("email") && !hasAgentRules(config)) {
+    report("warning", "signInMethods", "Email sign-in accepts any address; set agentEmailDomains or agents");
+  }
+  if (!methods.includes("pin") && (config.pinHash || config.pinVerifyUrl)) {
+    report("warning", "signInMethods", "PIN sign-in is off, so pinHash and pinVerifyUrl are unused");
+  }
+
+  // Field overrides: anything naming a missing field or option is silently ignored at runtime
+  Object.entries(config.fieldOverrides ?? {}).forEach(([name, override]) => {
+    const path = `fieldOverrides.${name}`;
+    const field = formFields.find((candidate) => candidate.name === name);
+    if (!field) {
+      report("error", path, `No field is named "${name}"`);
+      return;
+    }
+    if (!isOptionField(field)) {
+      report("error", path, `"${name}" is a ${field.type} field and has no options to override`);
+      return;
+    }
+    const shared = new Set(field.options.map((option) => option.value));
+    override.add?.forEach((option, index) => {
+      if (shared.has(option.value)) {
+        report("error", `${path}.add[${index}]`, `"${option.value}" is already a ${name} option`);
+      }
+    });
+    const known = new Set([...shared, ...(override.add ?? []).map((option) => option.value)]);
+    const removed = new Set(override.remove ?? []);
+    const unknown = (key: string, values: string[]) =>
+      values.forEach((value) => {
+        if (!known.has(value)) report("warning", `${path}.${key}`, `"${value}" is not a ${name} option`);
+      });
+    unknown("remove", override.remove ?? []);
+    unknown("relabel", Object.keys(override.relabel ?? {}));
+    unknown("order", override.order ?? []);
+
+    if ([...known].every((value) => removed.has(value))) {
+      report("error", `${path}.remove`, "Removes every option; the override will be ignored");
+    }
+    const defaults = override.defaultValue === undefined ? [] : [override.defaultValue].flat();
+    if (field.type !== "selection-cards" && defaults.length > 1) {
+      report("error", `${path}.defaultValue`, `"${name}" takes a single default, not a list`);
+    }
+    defaults.forEach((value) => {
+      if (!known.has(value) || removed.has(value)) {
+        report("error", `${path}.defaultValue`, `"${value}" isn't an option left after remove`);
+      }
+    });
+  });
+
+  return issues;
+};
+
+/** Hashes the usual suspects with the brokerage's salt; slow by design (PBKDF2), so run it offline. */
+export const findGuessablePin = async (config: BrokerageConfig) => {
+  if (!config.pinHash) return undefined;
+  const iterations = Number(config.pinHash.split("$")[1]);
+  if (!Number.isInteger(iterations) || iterations <= 0) return undefined;
+  for (const pin of GUESSABLE_PINS) {
+    if ((await hashPin(config.slug, pin, iterations)) === config.pinHash) return pin;
+  }
+  return undefined;
+};
+
+export const isGuessablePin = (pin: string) => GUESSABLE_PINS.includes(pin);
@@ -0,0 +1,70 @@
+import { BrokerageConfig } from "@/config/brokerages";
+
+export interface BrokerageMatch {
+  config: BrokerageConfig;
+  /** False when the slug was an alias or differently cased; redirect to `config.slug` */
+  isCanonical: boolean;
+}
+
+/** Resolves a route slug, canonical or alias, case-insensitively. */
+export const resolveBrokerageSlug = (
+  registry: BrokerageConfig[],
+  slug: string | undefined,
+): BrokerageMatch | undefined => {
+  const key = slug?.toLowerCase();
+  // The registry schema rejects shared slugs, so at most one brokerage claims the key
+  const config =
+    key &&
+    registry.find((candidate) =>
+      [candidate.slug, ...(candidate.aliases ?? [])].some((claim) => claim.toLowerCase() === key),
+    );
+  return config ? { config, isCanonical: slug === config.slug } : undefined;
+};
+
+/** Every brokerage, sorted by name. */
+export const listBrokerages = (registry: BrokerageConfig[]) =>
+  [...registry].sort((a, b) => a.name.localeCompare(b.name));
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+/**
+ * Brokerages whose route key, slug or name is close to a mistyped slug,
+ * closest first. Containment counts as close so "duston" finds "duston-leddy".
+ */
+export const suggestBrokerages = (registry: BrokerageConfig[], input: string, limit = 3) => {
+  const query = normalize(input);
+  if (!query) return [];
+  const threshold = Math.max(2, Math.floor(query.length / 3));
+
+  return listBrokerages(registry)
+    .map((config) => {
+      const candidates = [config.slug, ...(config.aliases ?? []), normalize(config.name)];
+      const distance = Math.min(
+        ...candidates.map((candidate) =>
+          query.length >= 3 && (candidate.includes(query) || query.includes(candidate))
+            ? 0
+            : editDistance(query, candidate),
+        ),
+      );
+      return { config, distance };
+    })
+    .filter((entry) => entry.distance <= threshold)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit);
+};
@@ -0,0 +1,230 @@
+import { z } from "zod";
+import { AppEnvironment, BrokerageConfig } from "@/config/brokerages";
+import { FIELD_ICON_NAMES } from "@/config/formFields";
+
+/** First path segments the app routes itself, so no brokerage can claim them */
+export const RESERVED_SLUGS = ["admin"];
+
+const slugSchema = z
+  .string()
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, digits and single hyphens")
+  .refine((slug) => !RESERVED_SLUGS.includes(slug), (slug) => ({ message: `"${slug}" is reserved for the app` }));
+
+const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Use a six-digit hex colour like #365989");
+
+const regionListSchema = z.array(z.string().trim().min(1)).min(1, "List at least one region");
+
+const emailDomainSchema = z
+  .string()
+  .regex(/^[a-z0-9-]+(?:\.[a-z0-9-]+)+$/, 'Use a lowercase domain like "dustonleddy.com", without the @');
+
+// Office and team ids are payload keys, so they follow the slug format
+const routingIdSchema = z
+  .string()
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, digits and single hyphens");
+
+const agentRosterEntrySchema = z
+  .object({
+    email: z.string().email(),
+    name: z.string().trim().min(1).optional(),
+    title: z.string().trim().min(1).optional(),
+    phone: z.string().trim().min(1).optional(),
+    headshotUrl: z.string().url().optional(),
+    office: routingIdSchema.optional(),
+    team: routingIdSchema.optional(),
+  })
+  .strict();
+
+const officeSchema = z
+  .object({
+    id: routingIdSchema,
+    name: z.string().trim().min(1, "Name is required"),
+    routingEmail: z.string().email().optional(),
+    phone: z.string().trim().min(1).optional(),
+    address: z.string().trim().min(1).optional(),
+    teams: z
+      .array(
+        z
+          .object({
+            id: routingIdSchema,
+            name: z.string().trim().min(1, "Name is required"),
+            leadEmail: z.string().email().optional(),
+          })
+          .strict(),
+      )
+      .optional(),
+  })
+  .strict();
+
+const environmentUrls: Record<AppEnvironment, z.ZodOptional<z.ZodString>> = {
+  production: z.string().url().optional(),
+  staging: z.string().url().optional(),
+  preview: z.string().url().optional(),
+  development: z.string().url().optional(),
+};
+
+const fieldOptionOverrideSchema = z
+  .object({
+    add: z
+      .array(
+        z
+          .object({
+            value: z.string().min(1),
+            label: z.string().min(1),
+            description: z.string().optional(),
+            icon: z.enum(FIELD_ICON_NAMES).optional(),
+          })
+          .strict(),
+      )
+      .optional(),
+    remove: z.array(z.string()).optional(),
+    relabel: z.record(z.string()).optional(),
+    order: z.array(z.string()).optional(),
+    defaultValue: z.union([z.string(), z.array(z.string())]).optional(),
+  })
+  .strict();
+
+const brandingSchema = z
+  .object({
+    primaryColor: hexColorSchema.optional(),
+    accentColor: hexColorSchema.optional(),
+    headingFont: z.string().optional(),
+    bodyFont: z.string().optional(),
+    fontStylesheetUrl: z.string().url().optional(),
+    logoMaxWidth: z.number().int().positive().optional(),
+    faviconUrl: z.string().optional(),
+    headline: z.string().optional(),
+    subheadline: z.string().optional(),
+    successHeadline: z.string().optional(),
+    successMessage: z.string().optional(),
+  })
+  .strict();
+
+// Strict objects so a misspelt key ("primaryColour") fails loudly instead of being ignored
+export const brokerageConfigSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required"),
+    slug: slugSchema,
+    aliases: z.array(slugSchema).optional(),
+    pinHash: z.string().startsWith("pbkdf2-sha256$", "Generate with npm run hash-pin").optional(),
+    pinVerifyUrl: z.string().url().optional(),
+    logoUrl: z.string().min(1, "Logo URL is required"),
+    regions: z.union([regionListSchema, z.record(regionListSchema)]),
+    fieldOverrides: z.record(fieldOptionOverrideSchema).optional(),
+    branding: brandingSchema.optional(),
+    webhookUrls: z.object(environmentUrls).strict().optional(),
+    statusUrls: z.object(environmentUrls).strict().optional(),
+    layout: z.enum(["scroll", "wizard"]).optional(),
+    agentEmailDomains: z.array(emailDomainSchema).optional(),
+    agents: z.array(agentRosterEntrySchema).optional(),
+    offices: z.array(officeSchema).optional(),
+    signInMethods: z
+      .array(z.enum(["pin", "email"]))
+      .min(1)
+      .refine((methods) => new Set(methods).size === methods.length, "List each method once")
+      .optional(),
+  })
+  .strict()
+  .refine((config) => !(config.signInMethods ?? ["pin"]).includes("pin") || config.pinHash || config.pinVerifyUrl, {
+    message: "Set pinVerifyUrl so the intake form can be unlocked with a PIN",
+    path: ["pinHash"],
+  });
+
+export const brokerageRegistrySchema = z
+  .object({ brokerages: z.array(brokerageConfigSchema).min(1, "The registry lists no brokerages") })
+  .superRefine(({ brokerages }, ctx) => {
+    // Slugs and aliases share one case-insensitive route namespace
+    const claims = new Map<string, string>();
+    brokerages.forEach((config, index) => {
+      [config.slug, ...(config.aliases ?? [])].forEach((slug) => {
+        const owner = claims.get(slug.toLowerCase());
+        if (owner !== undefined && owner !== config.slug) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `"${slug}" is already claimed by ${owner}`,
+            path: ["brokerages", index, slug === config.slug ? "slug" : "aliases"],
+          });
+        }
+        claims.set(slug.toLowerCase(), owner ?? config.slug);
+      });
+    });
+  });
+
+/** Thrown for a registry that loaded but doesn't match the schema; `issues` are display-ready. */
+export class BrokerageRegistryError extends Error {
+  constructor(
+    message: string,
+    readonly issues: string[] = [],
+  ) {
+    super(message);
+    this.name = "BrokerageRegistryError";
+  }
+}
+
+const formatIssue = (issue: z.ZodIssue, data: unknown) => {
+  const [root, index, ...rest] = issue.path;
+  const entries = (data as { brokerages?: { slug?: unknown }[] })?.brokerages;
+  // "oliza-real-estate › branding.primaryColor" reads better than "brokerages.1.branding.primaryColor"
+  const where =
+    root === "brokerages" && typeof index === "number"
+      ? [typeof entries?.[index]?.slug === "string" ? entries[index].slug : `Brokerage #${index + 1}`, rest.join(".")]
+      : [issue.path.join(".")];
+  return `${where.filter(Boolean).join(" › ") || "Registry"}: ${issue.message}`;
+};
+
+/** Validates raw registry JSON; throws BrokerageRegistryError listing every problem. */
+export const parseBrokerageRegistry = (data: unknown): BrokerageConfig[] => {
+  const result = brokerageRegistrySchema.safeParse(data);
+  if (!result.success) {
+    throw new BrokerageRegistryError(
+      "The brokerage registry is malformed",
+      result.error.issues.map((issue) => formatIssue(issue, data)),
+    );
+  }
+  // The app tsconfig isn't strict, so zod infers every key as optional; the schema requires them
+  return result.data.brokerages as BrokerageConfig[];
+};
+
+export const fetchBrokerageRegistry = async (url: string) => {
+  const response = await fetch(url, { headers: { Accept: "application/json" } });
+  if (!response.ok) {
+    throw new Error(`Brokerage registry request failed with HTTP ${response.status}`);
+  }
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    throw new BrokerageRegistryError("The brokerage registry is not valid JSON");
+  }
+  return parseBrokerageRegistry(data);
+};
+
+const CACHE_KEY = "oliza:brokerage-registry";
+
+interface CachedRegistry {
+  url: string;
+  /** Epoch milliseconds */
+  savedAt: number;
+  data: unknown;
+}
+
+/** Last registry loaded from `url` on this device, re-validated so a schema change can't let it through. */
+export const loadCachedRegistry = (url: string) => {
+  try {
+    const cached: CachedRegistry | null = JSON.parse(localStorage.getItem(CACHE_KEY) ?? "null");
+    if (cached?.url !== url) return undefined;
+    return { brokerages: parseBrokerageRegistry(cached.data), savedAt: cached.savedAt };
+  } catch {
+    return undefined;
+  }
+};
+
+export const saveCachedRegistry = (url: string, brokerages: BrokerageConfig[]) => {
+  try {
+    const cached: CachedRegistry = { url, savedAt: Date.now(), data: { brokerages } };
+    localStorage.setItem(CACHE_KEY, JSON.stringify(cached));
+  } catch (error) {
+    // Offline start-up falls back to a network fetch; nothing else depends on the cache
+    console.warn("Could not cache the brokerage registry:", error);
+  }
+};
@@ -0,0 +1,26 @@
+// Helper to format budget
+export const formatBudget = (value: number): string => {
+  if (value >= 1000000) {
+    const millions = value / 1000000;
+    return millions % 1 === 0 ? `$${millions}M` : `$${millions.toFixed(1)}M`;
+  }
+  return `$${value / 1000}K`;
+};
+
+// Budget steps: $25K from $250K-$1M, $50K from $1M-$2M, $100K from $2M-$5M, $250K from $5M-$10M
+export const budgetSteps = [
+  // $250K - $1M in $25K increments
+  250000, 275000, 300000, 325000, 350000, 375000, 400000, 425000, 450000, 475000,
+  500000, 525000, 550000, 575000, 600000, 625000, 650000, 675000, 700000, 725000,
+  750000, 775000, 800000, 825000, 850000, 875000, 900000, 925000, 950000, 975000, 1000000,
+  // $1M - $2M in $50K increments
+  1050000, 1100000, 1150000, 1200000, 1250000, 1300000, 1350000, 1400000, 1450000, 1500000,
+  1550000, 1600000, 1650000, 1700000, 1750000, 1800000, 1850000, 1900000, 1950000, 2000000,
+  // $2M - $5M in $100K increments
+  2100000, 2200000, 2300000, 2400000, 2500000, 2600000, 2700000, 2800000, 2900000, 3000000,
+  3100000, 3200000, 3300000, 3400000, 3500000, 3600000, 3700000, 3800000, 3900000, 4000000,
+  4100000, 4200000, 4300000, 4400000, 4500000, 4600000, 4700000, 4800000, 4900000, 5000000,
+  // $5M - $10M in $250K increments
+  5250000, 5500000, 5750000, 6000000, 6250000, 6500000, 6750000, 7000000, 7250000, 7500000,
+  7750000, 8000000, 8250000, 8500000, 8750000, 9000000, 9250000, 9500000, 9750000, 10000000
+];
@@ -0,0 +1,43 @@
+// Web Crypto helpers shared by the browser and the node scripts (Node 20 has
+// the same globals), so both sides compute identical digests.
+
+const encoder = new TextEncoder();
+
+export const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+export const toBase64Url = (value: string) =>
+  btoa(value).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+export const fromBase64Url = (value: string) => atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+
+export const pbkdf2 = async (secret: string, salt: string, iterations: number) => {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: encoder.encode(salt), iterations },
+    key,
+    256,
+  );
+  return toHex(bits);
+};
+
+/** Hex HMAC-SHA256 of `message` keyed by `secret`. */
+export const hmacSha256 = async (secret: string, message: string) => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(message)));
+};
+
+/** Compares two strings without bailing at the first differing character. */
+export const timingSafeEqual = (a: string, b: string) => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+};
@@ -0,0 +1,124 @@
+import { FORM_SCHEMA_VERSION } from "@/config/formFields";
+import { FormValues } from "@/lib/formSchema";
+
+export interface FormDraft {
+  id: string;
+  /** Set when the agent renames the draft; otherwise the buyer name is shown */
+  name?: string;
+  values: FormValues;
+  /** Epoch milliseconds */
+  savedAt: number;
+  schemaVersion: number;
+}
+
+const storageKey = (slug: string) => `oliza:drafts:${slug}`;
+/** Single-draft key used before named drafts existed */
+const legacyStorageKey = (slug: string) => `oliza:draft:${slug}`;
+
+export const createDraftId = () =>
+  crypto.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+const readJson = (key: string) => {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? "null");
+  } catch {
+    return null;
+  }
+};
+
+const writeDrafts = (slug: string, drafts: FormDraft[]) => {
+  try {
+    localStorage.setItem(storageKey(slug), JSON.stringify(drafts));
+  } catch (error) {
+    // Quota exceeded or storage disabled (private browsing); autosave is best-effort
+    console.warn("Could not save drafts:", error);
+  }
+};
+
+/** All drafts for a brokerage, most recently edited first. */
+export const loadDrafts = (slug: string): FormDraft[] => {
+  const stored = readJson(storageKey(slug));
+  const drafts: FormDraft[] = Array.isArray(stored) ? stored.filter((draft) => draft?.id && draft?.values) : [];
+
+  const legacy = readJson(legacyStorageKey(slug));
+  if (legacy?.values) {
+    drafts.push({ ...legacy, id: createDraftId() });
+    writeDrafts(slug, drafts);
+    localStorage.removeItem(legacyStorageKey(slug));
+  }
+  return drafts.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+/** Creates or updates the draft with this id and returns the saved draft. */
+export const saveDraft = (slug: string, id: string, values: FormValues): FormDraft => {
+  const drafts = loadDrafts(slug);
+  const existing = drafts.find((draft) => draft.id === id);
+  const saved: FormDraft = {
+    ...existing,
+    id,
+    values,
+    savedAt: Date.now(),
+    schemaVersion: FORM_SCHEMA_VERSION,
+  };
+  writeDrafts(slug, [saved, ...drafts.filter((draft) => draft.id !== id)]);
+  return saved;
+};
+
+export const renameDraft = (slug: string, id: string, name: string) => {
+  const trimmed = name.trim();
+  writeDrafts(
+    slug,
+    loadDrafts(slug).map((draft) =>
+      draft.id === id ? { ...draft, name: trimmed || undefined } : draft,
+    ),
+  );
+};
+
+export const duplicateDraft = (slug: string, id: string): FormDraft | null => {
+  const drafts = loadDrafts(slug);
+  const source = drafts.find((draft) => draft.id === id);
+  if (!source) return null;
+  const copy: FormDraft = {
+    ...source,
+    id: createDraftId(),
+    name: `${draftDisplayName(source)} (copy)`,
+    savedAt: Date.now(),
+  };
+  writeDrafts(slug, [copy, ...drafts]);
+  return copy;
+};
+
+/** Moves a draft to a fresh id, keeping its name and values, and returns the new id. */
+export const reissueDraftId = (slug: string, id: string) => {
+  const newId = createDraftId();
+  writeDrafts(
+    slug,
+    loadDrafts(slug).map((draft) => (draft.id === id ? { ...draft, id: newId } : draft)),
+  );
+  return newId;
+};
+
+export const deleteDraft = (slug: string, id: string) => {
+  writeDrafts(slug, loadDrafts(slug).filter((draft) => draft.id !== id));
+};
+
+export const draftDisplayName = (draft: FormDraft) =>
+  draft.name || (draft.values.buyerName as string)?.trim() || "Untitled buyer";
+
+/**
+ * Lays draft values over the current defaults, keeping only fields the form
+ * still has so drafts saved under an older schema version stay loadable.
+ */
+export const mergeDraftValues = (defaults: FormValues, draft: FormDraft): FormValues => {
+  const merged: FormValues = { ...defaults };
+  for (const name of Object.keys(defaults)) {
+    if (name in draft.values) {
+      merged[name] = draft.values[name];
+    }
+  }
+  return merged;
+};
+
+/** True when the values differ from the defaults, i.e. worth keeping as a draft. */
+export const hasDraftContent = (values: FormValues, defaults: FormValues) =>
+  Object.keys(defaults).some((name) => JSON.stringify(values[name]) !== JSON.stringify(defaults[name]));
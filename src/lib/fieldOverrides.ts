@@ -0,0 +1,98 @@
+import { BrokerageConfig, FieldOptionOverride } from "@/config/brokerages";
+import { AGENT_EMAIL_FIELD, agentRosterEmails, hasAgentRules } from "@/lib/agentIdentity";
+import {
+  FieldDefinition,
+  FieldOption,
+  OptionFieldDefinition,
+  formFields,
+  isOptionField,
+} from "@/config/formFields";
+
+const applyOptionOverride = (
+  options: FieldOption[],
+  override: FieldOptionOverride,
+): FieldOption[] => {
+  const removed = new Set(override.remove ?? []);
+  const merged = [...options, ...(override.add ?? [])]
+    .filter((option) => !removed.has(option.value))
+    .map((option) =>
+      override.relabel?.[option.value]
+        ? { ...option, label: override.relabel[option.value] }
+        : option,
+    );
+
+  const order = override.order ?? [];
+  if (!order.length) {
+    return merged;
+  }
+  const rank = (value: string) => {
+    const index = order.indexOf(value);
+    return index === -1 ? order.length : index;
+  };
+  // Array.prototype.sort is stable, so unlisted options keep their relative order
+  return [...merged].sort((a, b) => rank(a.value) - rank(b.value));
+};
+
+const resolveDefault = (
+  field: OptionFieldDefinition,
+  options: FieldOption[],
+  override: FieldOptionOverride,
+): string | string[] => {
+  const values = new Set(options.map((option) => option.value));
+  const requested = override.defaultValue ?? field.defaultValue;
+
+  if (field.type === "selection-cards") {
+    const wanted = (Array.isArray(requested) ? requested : [requested]).filter((value) =>
+      values.has(value),
+    );
+    return wanted.length ? wanted : [options[0].value];
+  }
+  const wanted = Array.isArray(requested) ? requested[0] : requested;
+  return values.has(wanted) ? wanted : options[0].value;
+};
+
+/**
+ * Applies a brokerage's option overrides to the shared field definitions.
+ * Overrides for unknown or non-option fields are ignored; an override that
+ * removes every option leaves the field untouched.
+ */
+export const applyFieldOverrides = (
+  fields: FieldDefinition[],
+  overrides: BrokerageConfig["fieldOverrides"] = {},
+): FieldDefinition[] =>
+  fields.map((field) => {
+    const override = overrides[field.name];
+    if (!override || !isOptionField(field)) {
+      return field;
+    }
+    const options = applyOptionOverride(field.options, override);
+    if (!options.length) {
+      console.warn(`Ignoring fieldOverrides.${field.name}: it removes every option`);
+      return field;
+    }
+    return {
+      ...field,
+      options,
+      defaultValue: resolveDefault(field, options, override),
+    } as FieldDefinition;
+  });
+
+/** Narrows agentEmail to the brokerage's domains and roster, when it has any. */
+const applyAgentRules = (fields: FieldDefinition[], brokerage: BrokerageConfig): FieldDefinition[] => {
+  if (!hasAgentRules(brokerage)) return fields;
+  const allowedDomains = brokerage.agentEmailDomains ?? [];
+  return fields.map((field) =>
+    field.name === AGENT_EMAIL_FIELD && field.type === "email"
+      ? {
+          ...field,
+          allowedDomains,
+          allowedEmails: agentRosterEmails(brokerage),
+          placeholder: allowedDomains.length ? `agent@${allowedDomains[0]}` : field.placeholder,
+        }
+      : field,
+  );
+};
+
+/** The field definitions a given brokerage's form renders and validates against. */
+export const resolveFormFields = (brokerage: BrokerageConfig): FieldDefinition[] =>
+  applyAgentRules(applyFieldOverrides(formFields, brokerage.fieldOverrides), brokerage);
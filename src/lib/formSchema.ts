@@ -0,0 +1,587 @@
+import { z } from "zod";
+import { BrokerageConfig } from "@/config/brokerages";
+import {
+  FORM_SCHEMA_VERSION,
+  FieldDefinition,
+  ConsentFieldDefinition,
+  FieldOption,
+  OptionFieldDefinition,
+  WizardStep,
+  formFields,
+  formSections,
+  isOptionField,
+} from "@/config/formFields";
+import {
+  AGENT_EMAIL_FIELD,
+  agentEmailMessage,
+  extraRecipients,
+  isAllowedAgentEmail,
+  normalizeEmail,
+  routedRecipients,
+} from "@/lib/agentIdentity";
+import { formatBudget } from "@/lib/budget";
+import { resolveFormFields } from "@/lib/fieldOverrides";
+
+export type FieldValue = string | string[] | number[] | boolean | undefined;
+export type FormValues = Record<string, FieldValue>;
+
+const optionValues = (options: FieldOption[]) =>
+  options.map((option) => option.value) as [string, ...string[]];
+
+const oneOf = (options: FieldOption[], message: string) =>
+  z.enum(optionValues(options), { errorMap: () => ({ message }) });
+
+const buildFieldSchema = (field: FieldDefinition): z.ZodTypeAny => {
+  const requiredMessage = field.requiredMessage ?? `${field.summaryLabel ?? field.label} is required`;
+
+  switch (field.type) {
+    case "email": {
+      let schema: z.ZodTypeAny = z.string().email(requiredMessage);
+      if (field.allowedDomains?.length || field.allowedEmails?.length) {
+        schema = schema.refine(
+          (email: string) => isAllowedAgentEmail(email, field.allowedDomains, field.allowedEmails),
+          agentEmailMessage(field.allowedDomains, field.allowedEmails),
+        );
+      }
+      return field.required ? schema : schema.or(z.literal("")).optional();
+    }
+    case "email-list": {
+      let schema = z
+        .array(z.string().email("Please enter valid email addresses"))
+        .max(field.maxItems, `Add at most ${field.maxItems} addresses`);
+      if (field.required) {
+        schema = schema.min(1, requiredMessage);
+      }
+      return schema.refine(
+        (emails) => new Set(emails.map(normalizeEmail)).size === emails.length,
+        "Each address can only be added once",
+      );
+    }
+    case "text":
+    case "textarea": {
+      let schema = z.string();
+      if (field.type === "textarea" && field.minLength) {
+        schema = schema.min(field.minLength, `Please provide at least ${field.minLength} characters`);
+      } else if (field.required) {
+        schema = schema.min(1, requiredMessage);
+      }
+      if (field.maxLength) {
+        schema = schema.max(field.maxLength, `Maximum ${field.maxLength} characters`);
+      }
+      return field.required ? schema : schema.optional();
+    }
+    case "select":
+    case "chip-group":
+    case "radio-cards":
+      return oneOf(field.options, requiredMessage);
+    case "selection-cards":
+      return z.array(oneOf(field.options, requiredMessage)).min(1, requiredMessage);
+    case "toggle":
+      return z.boolean();
+    case "consent":
+      return field.required ? z.literal(true, { errorMap: () => ({ message: requiredMessage }) }) : z.boolean();
+    case "dual-slider":
+      return z
+        .array(z.number().int().min(0).max(field.steps.length - 1))
+        .length(2);
+    case "region":
+      return z.string().min(1, requiredMessage);
+  }
+};
+
+/** False while a field's `dependsOn` condition isn't met; it's then hidden and never required. */
+export const isFieldActive = (field: FieldDefinition, values: Record<string, unknown>) =>
+  !field.dependsOn || field.dependsOn.values.includes(values[field.dependsOn.field] as string);
+
+/** {@link isFieldActive} against a built payload, whose keys are export names. */
+export const isPayloadFieldActive = (
+  field: FieldDefinition,
+  payload: Record<string, unknown>,
+  fields: FieldDefinition[] = formFields,
+) => {
+  if (!field.dependsOn) return true;
+  const { field: name, values } = field.dependsOn;
+  const condition = fields.find((candidate) => candidate.name === name);
+  return !!condition && values.includes(payload[condition.exportName as string] as string);
+};
+
+/** What an inactive conditional field is sent as, so nothing the agent typed before hiding it leaks out */
+const emptyPayloadValue = (field: FieldDefinition) => {
+  switch (field.type) {
+    case "consent":
+    case "toggle":
+      return false;
+    case "email-list":
+    case "selection-cards":
+      return [];
+    default:
+      return "";
+  }
+};
+
+const isEmptyPayloadValue = (value: unknown) =>
+  value === undefined || value === "" || value === false || (Array.isArray(value) && !value.length);
+
+interface FieldConditions {
+  /** The field's key in the validated object */
+  keyOf: (field: FieldDefinition) => string;
+  /** Reads the field's condition from the validated object */
+  isActive: (field: FieldDefinition, values: Record<string, unknown>) => boolean;
+  /** Rules applied while the condition is met */
+  activeSchema: (field: FieldDefinition) => z.ZodTypeAny;
+  /** Only payloads enforce anything on hidden fields: they must be sent empty */
+  requireEmptyWhenInactive?: boolean;
+}
+
+/**
+ * Validates conditional fields, which the object shape accepts as anything:
+ * by their own rules while their condition holds, otherwise not at all (or,
+ * for payloads, as empty). A condition on a field outside `fields` (another
+ * wizard step) is left for the full schema.
+ */
+const withConditionalFields = <T extends z.ZodTypeAny>(
+  schema: T,
+  fields: FieldDefinition[],
+  { keyOf, isActive, activeSchema, requireEmptyWhenInactive }: FieldConditions,
+) => {
+  const conditional = fields.filter(
+    (field) => field.dependsOn && fields.some((other) => other.name === field.dependsOn?.field),
+  );
+  if (!conditional.length) return schema;
+  return schema.superRefine((values: Record<string, unknown>, ctx) => {
+    for (const field of conditional) {
+      const key = keyOf(field);
+      if (!isActive(field, values)) {
+        if (requireEmptyWhenInactive && !isEmptyPayloadValue(values[key])) {
+          const condition = fields.find((other) => other.name === field.dependsOn?.field);
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [key],
+            message: `Must be empty unless ${condition && keyOf(condition)} is ${field.dependsOn?.values.join(" or ")}`,
+          });
+        }
+        continue;
+      }
+      const result = activeSchema(field).safeParse(values[key]);
+      result.error?.issues.forEach((issue) => ctx.addIssue({ ...issue, path: [key, ...issue.path] }));
+    }
+  });
+};
+
+// Conditional fields are checked by withConditionalFields, which knows whether they're shown
+const buildBaseFieldSchema = (field: FieldDefinition) => (field.dependsOn ? z.unknown() : buildFieldSchema(field));
+
+/** Builds the zod schema validated by react-hook-form from the field definitions. */
+export const buildFormSchema = (fields: FieldDefinition[] = formFields) => {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of fields) {
+    shape[field.name] = buildBaseFieldSchema(field);
+    if (field.type === "region") {
+      shape[field.stateField.name] = z.string().optional();
+    }
+  }
+  return withConditionalFields(z.object(shape), fields, {
+    keyOf: (field) => field.name,
+    isActive: isFieldActive,
+    activeSchema: buildFieldSchema,
+  });
+};
+
+/** Sub-schema covering only the fields on one wizard step. */
+export const buildStepSchema = (step: WizardStep, fields: FieldDefinition[] = formFields) =>
+  buildFormSchema(fields.filter((field) => step.sections.includes(field.section)));
+
+export const buildDefaultValues = (fields: FieldDefinition[] = formFields): FormValues => {
+  const values: FormValues = {};
+  for (const field of fields) {
+    switch (field.type) {
+      case "region":
+        values[field.stateField.name] = "";
+        values[field.name] = "";
+        break;
+      case "selection-cards":
+      case "email-list":
+        values[field.name] = [...field.defaultValue];
+        break;
+      case "dual-slider":
+        values[field.name] = [...field.defaultValue];
+        break;
+      case "consent":
+        values[field.name] = field.defaultValue;
+        break;
+      default:
+        values[field.name] = field.defaultValue ?? "";
+    }
+  }
+  return values;
+};
+
+/**
+ * Maps form values onto the snake_case keys the n8n workflow expects. With the
+ * brokerage, email lists also drop the agent's routing CCs, not just the agent.
+ */
+export const buildFieldPayload = (
+  values: FormValues,
+  fields: FieldDefinition[] = formFields,
+  brokerage?: BrokerageConfig,
+): Record<string, unknown> => {
+  const payload: Record<string, unknown> = {};
+  const agentEmail = (values[AGENT_EMAIL_FIELD] as string | undefined) ?? "";
+  const alreadyReceiving = brokerage ? routedRecipients(brokerage, agentEmail) : [agentEmail];
+  for (const field of fields) {
+    const value = values[field.name];
+    if (!isFieldActive(field, values)) {
+      payload[field.exportName as string] = emptyPayloadValue(field);
+      continue;
+    }
+    switch (field.type) {
+      case "dual-slider": {
+        const [minIndex, maxIndex] = value as number[];
+        payload[field.exportName[0]] = field.steps[minIndex];
+        payload[field.exportName[1]] = field.steps[maxIndex];
+        break;
+      }
+      case "region":
+        payload[field.stateField.exportName] = values[field.stateField.name];
+        payload[field.exportName] = value;
+        break;
+      case "text":
+      case "textarea":
+      case "email":
+        payload[field.exportName] = value || "";
+        break;
+      case "email-list":
+        payload[field.exportName] = extraRecipients((value as string[] | undefined) ?? [], alreadyReceiving);
+        break;
+      case "consent":
+        payload[field.exportName] = value === true;
+        break;
+      default:
+        payload[field.exportName] = value;
+    }
+  }
+  return payload;
+};
+
+// Built by buildAgentPayload (agentIdentity.ts); null for agents who aren't on the roster
+const agentProfileSchema = z.object({
+  name: z.string(),
+  email: z.string().email(),
+  title: z.string(),
+  phone: z.string(),
+  headshot_url: z.string(),
+  office_name: z.string(),
+  office_phone: z.string(),
+  office_address: z.string(),
+});
+
+const agentRoutingSchema = z.object({
+  office_id: z.string(),
+  office_name: z.string(),
+  team_id: z.string(),
+  team_name: z.string(),
+  cc: z.array(z.string().email()),
+});
+
+// Built by buildConsentRecord; null unless the buyer's consent was confirmed
+const buyerConsentSchema = z.object({
+  text_version: z.string().min(1),
+  text: z.string().min(1),
+  consented_at: z.string().datetime(),
+  agent_email: z.string().email(),
+});
+
+// Payload rules for one field: text is sent as "" rather than omitted when empty
+const buildPayloadFieldSchema = (field: FieldDefinition) => {
+  const schema = buildFieldSchema(field);
+  switch (field.type) {
+    case "text":
+    case "textarea":
+    case "email":
+      return field.required ? schema : schema.or(z.literal(""));
+    default:
+      return schema;
+  }
+};
+
+/**
+ * Zod schema for the webhook payload built by BuyerGuideForm: the same field
+ * rules as {@link buildFormSchema}, keyed by export name, plus the metadata
+ * keys. Region values are checked against the brokerage's own regions.
+ */
+export const buildPayloadSchema = (brokerage: BrokerageConfig, fields: FieldDefinition[] = formFields) => {
+  const shape: Record<string, z.ZodTypeAny> = {
+    submission_id: z.string().min(1),
+    form_schema_version: z.literal(FORM_SCHEMA_VERSION),
+    brokerage_slug: z.literal(brokerage.slug),
+    intake_token: z.string().min(1),
+    verified_agent_email: z.string().email().optional(),
+    agent_profile: agentProfileSchema.nullable().optional(),
+    agent_routing: agentRoutingSchema.nullable().optional(),
+    buyer_consent: buyerConsentSchema.nullable().optional(),
+    option_labels: z.record(z.union([z.string(), z.array(z.string())])),
+  };
+  for (const field of fields) {
+    switch (field.type) {
+      case "dual-slider": {
+        const step = z.number().refine((value) => field.steps.includes(value), "Not a budget step");
+        shape[field.exportName[0]] = step;
+        shape[field.exportName[1]] = step;
+        break;
+      }
+      case "region": {
+        const { regions } = brokerage;
+        const allRegions = Array.isArray(regions) ? regions : Object.values(regions).flat();
+        shape[field.stateField.exportName] = Array.isArray(regions)
+          ? z.string().optional()
+          : z.enum(Object.keys(regions) as [string, ...string[]]);
+        shape[field.exportName] = z.enum(allRegions as [string, ...string[]]);
+        break;
+      }
+      default:
+        shape[field.exportName] = field.dependsOn ? z.unknown() : buildPayloadFieldSchema(field);
+    }
+  }
+  const consentFields = fields.filter((field): field is ConsentFieldDefinition => field.type === "consent");
+  return withConditionalFields(z.object(shape), fields, {
+    keyOf: (field) => field.exportName as string,
+    isActive: (field, payload) => isPayloadFieldActive(field, payload, fields),
+    activeSchema: buildPayloadFieldSchema,
+    requireEmptyWhenInactive: true,
+  }).superRefine((payload: Record<string, unknown>, ctx) => {
+    // An emailed-code session vouches for one agent, so the guide can't be sent as another
+    const agentField = fields.find((field) => field.name === AGENT_EMAIL_FIELD);
+    const agentEmail = agentField && payload[agentField.exportName as string];
+    const verifiedEmail = payload.verified_agent_email;
+    if (
+      typeof verifiedEmail === "string" &&
+      agentField &&
+      (typeof agentEmail !== "string" || normalizeEmail(agentEmail) !== normalizeEmail(verifiedEmail))
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [agentField.exportName as string],
+        message: "Doesn't match verified_agent_email",
+      });
+    }
+    // Added recipients are only for people the guide wouldn't otherwise reach
+    const routing = payload.agent_routing as { cc?: unknown } | null | undefined;
+    const alreadyReceiving = [agentEmail, ...(Array.isArray(routing?.cc) ? routing.cc : [])]
+      .filter((email): email is string => typeof email === "string")
+      .map(normalizeEmail);
+    for (const field of fields) {
+      const emails = payload[field.exportName as string];
+      if (field.type !== "email-list" || !Array.isArray(emails)) continue;
+      emails.forEach((email, index) => {
+        if (typeof email === "string" && alreadyReceiving.includes(normalizeEmail(email))) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [field.exportName, index],
+            message: `${email} already receives the guide as the agent or a routing CC`,
+          });
+        }
+      });
+    }
+    if (consentFields.some((field) => payload[field.exportName] === true) && !payload.buyer_consent) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["buyer_consent"], message: "Consent was given but not recorded" });
+    }
+  });
+};
+
+/**
+ * Display labels for the selected option(s) of every option field, keyed by
+ * export name. Brokerage overrides can add values the workflow has never seen,
+ * so the payload carries the human-readable label alongside the raw value.
+ */
+export const buildOptionLabels = (
+  values: FormValues,
+  fields: FieldDefinition[] = formFields,
+): Record<string, string | string[]> => {
+  const labels: Record<string, string | string[]> = {};
+  for (const field of fields) {
+    if (!isOptionField(field)) continue;
+    const labelFor = (value: string) =>
+      field.options.find((option) => option.value === value)?.label ?? value;
+    const value = values[field.name];
+    labels[field.exportName] = Array.isArray(value)
+      ? (value as string[]).map(labelFor)
+      : labelFor(value as string);
+  }
+  return labels;
+};
+
+const findConsentField = (fields: FieldDefinition[]) =>
+  fields.find((candidate): candidate is ConsentFieldDefinition => candidate.type === "consent");
+
+const consentRecord = (field: ConsentFieldDefinition, agentEmail: string, consentedAt: Date) => ({
+  text_version: field.consentVersion,
+  text: field.consentText,
+  consented_at: consentedAt.toISOString(),
+  agent_email: normalizeEmail(agentEmail),
+});
+
+/**
+ * What the agent attested to when the consent field is ticked, sent as
+ * `buyer_consent`. The timestamp is when the guide was submitted, the moment
+ * the agent confirmed it, rather than when the box was first ticked in a draft.
+ */
+export const buildConsentRecord = (
+  values: FormValues,
+  agentEmail: string,
+  fields: FieldDefinition[] = formFields,
+  consentedAt = new Date(),
+) => {
+  const field = findConsentField(fields);
+  if (!field || values[field.name] !== true || !isFieldActive(field, values)) return null;
+  return consentRecord(field, agentEmail, consentedAt);
+};
+
+/**
+ * `buyer_consent` for resending a sent payload: restamped for the agent who
+ * resends it, now. Null when the original had no consent; undefined when the
+ * consent text has changed since, which the buyer never agreed to.
+ */
+export const renewConsentRecord = (
+  payload: Record<string, unknown>,
+  agentEmail: string,
+  fields: FieldDefinition[] = formFields,
+  consentedAt = new Date(),
+) => {
+  const previous = payload.buyer_consent as { text_version?: unknown } | null | undefined;
+  if (!previous) return null;
+  const field = findConsentField(fields);
+  if (!field || previous.text_version !== field.consentVersion) return undefined;
+  return consentRecord(field, agentEmail, consentedAt);
+};
+
+/**
+ * How one field reads in a built webhook payload, e.g. "$500K – $750K" or
+ * "Single Family" for `single-family`. Works from the payload rather than
+ * form values so the review shows exactly what will be sent.
+ */
+export const describePayloadValue = (field: FieldDefinition, payload: Record<string, unknown>): string => {
+  switch (field.type) {
+    case "dual-slider": {
+      const [min, max] = field.exportName.map((key) => formatBudget(payload[key] as number));
+      return `${min} – ${max}`;
+    }
+    case "toggle":
+      return payload[field.exportName] ? field.trueLabel : field.falseLabel;
+    case "consent":
+      return payload[field.exportName] ? `Confirmed (consent text v${field.consentVersion})` : "";
+    case "email-list":
+      return ((payload[field.exportName] as string[] | undefined) ?? []).join(", ");
+    case "region":
+      return [payload[field.exportName], payload[field.stateField.exportName]].filter(Boolean).join(", ");
+  }
+  if (isOptionField(field)) {
+    const labels = (payload.option_labels as Record<string, string | string[]> | undefined)?.[field.exportName];
+    return Array.isArray(labels) ? labels.join(", ") : labels ?? "";
+  }
+  return String(payload[field.exportName] ?? "");
+};
+
+/** Every form-level key the summary list can report, in render order. */
+export const fieldSummaryLabels = (fields: FieldDefinition[] = formFields) =>
+  fields.flatMap((field) => {
+    const entries: { name: string; label: string; minLength?: number }[] = [
+      {
+        name: field.name,
+        label: field.summaryLabel ?? field.label,
+        minLength: field.type === "textarea" ? field.minLength : undefined,
+      },
+    ];
+    if (field.type === "region") {
+      entries.unshift({
+        name: field.stateField.name,
+        label: field.stateField.summaryLabel ?? field.stateField.label,
+      });
+    }
+    return entries;
+  });
+
+/** Machine-readable spec of the form, published as public/form-fields.json. */
+export const buildFieldExport = (
+  brokerages: BrokerageConfig[],
+  fields: FieldDefinition[] = formFields,
+) => ({
+  formName: "Buyer Guide Intake Form",
+  schemaVersion: FORM_SCHEMA_VERSION,
+  totalFields: fields.length,
+  sections: formSections,
+  fields: fields.map((field) => {
+    const { name, section, hidden, hideLabel, markRequired, ...rest } = field;
+    const spec: Record<string, unknown> = { technicalName: name, section, ...rest };
+    // Presentation-only keys mean nothing to the n8n workflow
+    delete spec.className;
+    delete spec.rows;
+    if (field.type === "dual-slider") {
+      spec.exportedValues = "budget steps in whole dollars";
+      spec.range = {
+        min: field.steps[0],
+        max: field.steps[field.steps.length - 1],
+      };
+      spec.defaultExportValue = field.defaultValue.map((index) => field.steps[index]);
+      delete spec.steps;
+    }
+    if (field.name === AGENT_EMAIL_FIELD) {
+      const restricted = brokerages.filter((brokerage) => brokerage.agentEmailDomains?.length);
+      if (restricted.length) {
+        spec.allowedDomainsByBrokerage = Object.fromEntries(
+          restricted.map((brokerage) => [brokerage.slug, brokerage.agentEmailDomains]),
+        );
+      }
+    }
+    if (field.type === "region") {
+      spec.optionsSource = "brokerage.regions";
+      spec.regionsByBrokerage = Object.fromEntries(
+        brokerages.map((brokerage) => [brokerage.slug, brokerage.regions]),
+      );
+    }
+    if (isOptionField(field)) {
+      const overridden = brokerages.filter((brokerage) => brokerage.fieldOverrides?.[field.name]);
+      if (overridden.length) {
+        spec.brokerageOverrides = Object.fromEntries(
+          overridden.map((brokerage) => {
+            const resolved = resolveFormFields(brokerage).find(
+              (candidate) => candidate.name === field.name,
+            ) as OptionFieldDefinition;
+            return [
+              brokerage.slug,
+              { defaultValue: resolved.defaultValue, options: resolved.options },
+            ];
+          }),
+        );
+      }
+    }
+    if (hidden) {
+      spec.rendered = false;
+    }
+    return spec;
+  }),
+  webhookMetadata: {
+    submission_id: "string: stable per form fill until the webhook rejects it, repeated in the Idempotency-Key header",
+    form_schema_version: "number",
+    brokerage_slug: "string",
+    intake_token: "string: short-lived proof of the brokerage PIN or an emailed code, see src/lib/pinAuth.ts",
+    verified_agent_email:
+      "string, optional: address the agent signed in with by emailed code; the intake token vouches for it",
+    agent_profile:
+      "object or null: roster contact card { name, email, title, phone, headshot_url, office_name, office_phone, " +
+      "office_address }",
+    agent_routing:
+      "object or null: { office_id, office_name, team_id, team_name, cc: team lead and office inbox emails }",
+    buyer_consent:
+      "object or null: { text_version, text, consented_at: ISO time of submission, agent_email }, set whenever " +
+      "buyer_consent_given is true",
+    option_labels: "object: export name → selected option label(s)",
+  },
+  requestSigning: {
+    headers: {
+      "X-Oliza-Timestamp": "epoch milliseconds when the request was signed",
+      "X-Oliza-Signature": "v1=<hex HMAC-SHA256 of `${timestamp}.${raw body}`>",
+    },
+    key: "session signing key issued at sign-in; reject timestamps older than 5 minutes and repeated signatures",
+    reference: "src/lib/requestSigning.ts",
+  },
+});
@@ -0,0 +1,40 @@
+export type GuideStatus = "queued" | "generating" | "emailed" | "failed";
+
+export interface GuideStatusReport {
+  status: GuideStatus;
+  message?: string;
+  /** Epoch milliseconds of the last change, when the endpoint reports one */
+  updatedAt?: number;
+}
+
+const GUIDE_STATUSES: GuideStatus[] = ["queued", "generating", "emailed", "failed"];
+
+export const isFinalStatus = (status: GuideStatus | undefined) => status === "emailed" || status === "failed";
+
+/**
+ * Status endpoint contract: GET <url>?submission_id=<id> and expect
+ * 200 { status, message?, updated_at? }. A 404 means the workflow hasn't
+ * picked the guide up yet, which reads as queued. Throws on any other failure.
+ */
+export const fetchGuideStatus = async (url: string, submissionId: string): Promise<GuideStatusReport> => {
+  const statusUrl = new URL(url);
+  statusUrl.searchParams.set("submission_id", submissionId);
+  const response = await fetch(statusUrl);
+  if (response.status === 404) {
+    return { status: "queued" };
+  }
+  if (!response.ok) {
+    throw new Error(`Status check failed with status ${response.status}`);
+  }
+  const data = (await response.json()) as { status?: string; message?: string; updated_at?: string | number };
+  const status = data?.status as GuideStatus;
+  if (!GUIDE_STATUSES.includes(status)) {
+    throw new Error(`Unknown guide status "${data?.status}"`);
+  }
+  const updatedAt = typeof data.updated_at === "number" ? data.updated_at : Date.parse(data.updated_at ?? "");
+  return {
+    status,
+    message: data.message,
+    updatedAt: Number.isNaN(updatedAt) ? undefined : updatedAt,
+  };
+};
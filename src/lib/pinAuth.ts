@@ -0,0 +1,164 @@
+import { BrokerageConfig } from "@/config/brokerages";
+import { fromBase64Url, hmacSha256, pbkdf2, timingSafeEqual, toBase64Url } from "@/lib/crypto";
+
+/** Proof that the agent entered the brokerage PIN or an emailed code, sent as `intake_token` */
+export interface IntakeSession {
+  token: string;
+  /** Epoch milliseconds */
+  expiresAt: number;
+  /** Secret for signing submissions (see requestSigning.ts); never sent over the wire by the client */
+  signingKey: string;
+  /** Address the agent proved they own by email sign-in (see agentSignIn.ts); unset for PIN sessions */
+  agentEmail?: string;
+}
+
+/** Digits in a brokerage PIN, as entered on the PIN gate */
+export const PIN_LENGTH = 6;
+
+/** A verifier refusal the agent can act on (too many wrong PINs); the message is shown as is */
+export class PinVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PinVerificationError";
+  }
+}
+
+export const SESSION_TTL_MS = 2 * 60 * 60 * 1000;
+const PBKDF2_ITERATIONS = 100000;
+
+/** Produces the `pinHash` value stored in BrokerageConfig (salted with the slug). */
+export const hashPin = async (slug: string, pin: string, iterations = PBKDF2_ITERATIONS) =>
+  `pbkdf2-sha256$${iterations}$${await pbkdf2(pin, slug, iterations)}`;
+
+const matchesPinHash = async (slug: string, pin: string, pinHash: string) => {
+  const [scheme, iterations, expected] = pinHash.split("$");
+  if (scheme !== "pbkdf2-sha256" || !iterations || !expected) {
+    console.error(`Unsupported pinHash format for ${slug}`);
+    return false;
+  }
+  return timingSafeEqual(await pbkdf2(pin, slug, Number(iterations)), expected);
+};
+
+const localSigningKey = (pin: string, slug: string, expiresAt: number) =>
+  hmacSha256(pin, `${slug}.${expiresAt}.signing`);
+
+/**
+ * Token for hash-verified PINs: base64url JSON of the slug, expiry and an
+ * HMAC of both keyed by the PIN. The backend holds the PIN, recomputes the
+ * proof and checks the expiry, so the raw PIN never leaves the browser. The
+ * signing key is derived the same way, so it is never transmitted either.
+ */
+const issueLocalToken = async (slug: string, pin: string): Promise<IntakeSession> => {
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+  const proof = await hmacSha256(pin, `${slug}.${expiresAt}`);
+  return {
+    token: toBase64Url(JSON.stringify({ slug, exp: expiresAt, proof })),
+    expiresAt,
+    signingKey: await localSigningKey(pin, slug, expiresAt),
+  };
+};
+
+/**
+ * Backend side of {@link issueLocalToken}: checks a token's proof against the
+ * brokerage PIN and recovers its signing key. Resolves null for a forged or
+ * malformed token. Expiry is left to the caller, since queued submissions can
+ * legitimately arrive after the session ends.
+ */
+export const openLocalIntakeToken = async (token: string, pin: string) => {
+  let claims: { slug?: unknown; exp?: unknown; proof?: unknown };
+  try {
+    claims = JSON.parse(fromBase64Url(token));
+  } catch {
+    return null;
+  }
+  const { slug, exp, proof } = claims;
+  if (typeof slug !== "string" || typeof exp !== "number" || typeof proof !== "string") {
+    return null;
+  }
+  if (!timingSafeEqual(await hmacSha256(pin, `${slug}.${exp}`), proof)) {
+    return null;
+  }
+  return { slug, expiresAt: exp, signingKey: await localSigningKey(pin, slug, exp) };
+};
+
+/** Reads a remote verifier's 200 { token, expires_at, signing_key } body (expiry as ISO string or epoch ms). */
+export const readIssuedSession = async (response: Response): Promise<IntakeSession> => {
+  const data = (await response.json()) as { token?: string; expires_at?: string | number; signing_key?: string };
+  const expiresAt = typeof data?.expires_at === "number" ? data.expires_at : Date.parse(data?.expires_at ?? "");
+  if (!data?.token || !data.signing_key || Number.isNaN(expiresAt)) {
+    throw new Error("Verification returned an invalid session");
+  }
+  return { token: data.token, expiresAt, signingKey: data.signing_key };
+};
+
+/**
+ * Remote verifier contract: POST { brokerage_slug, pin } and expect a
+ * session (see {@link readIssuedSession}); 401/403 mean a wrong PIN and 429
+ * { message? } too many wrong guesses.
+ */
+const verifyWithEndpoint = async (url: string, slug: string, pin: string): Promise<IntakeSession | null> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ brokerage_slug: slug, pin }),
+  });
+  if (response.status === 401 || response.status === 403) {
+    return null;
+  }
+  if (response.status === 429) {
+    const message = await response
+      .json()
+      .then((data) => (data as { message?: string })?.message)
+      .catch(() => undefined);
+    throw new PinVerificationError(message ?? "Too many wrong PINs. Wait a few minutes and try again.");
+  }
+  if (!response.ok) {
+    throw new Error(`PIN verification failed with status ${response.status}`);
+  }
+  return readIssuedSession(response);
+};
+
+/**
+ * Checks a PIN against the brokerage's verifier endpoint, or its `pinHash`
+ * when no endpoint is configured. The hash is checked right here with no
+ * limit on guesses, so it only stands in for the verifier in local
+ * registries. Resolves null for a wrong PIN; rejects on network or
+ * configuration errors and with PinVerificationError when the verifier
+ * stops taking guesses.
+ */
+export const verifyPin = async (brokerage: BrokerageConfig, pin: string): Promise<IntakeSession | null> => {
+  if (brokerage.pinVerifyUrl) {
+    return verifyWithEndpoint(brokerage.pinVerifyUrl, brokerage.slug, pin);
+  }
+  if (!brokerage.pinHash) {
+    throw new Error(`${brokerage.slug} has neither pinVerifyUrl nor pinHash configured`);
+  }
+  if (!(await matchesPinHash(brokerage.slug, pin, brokerage.pinHash))) {
+    return null;
+  }
+  return issueLocalToken(brokerage.slug, pin);
+};
+
+const storageKey = (slug: string) => `oliza:intake-session:${slug}`;
+
+// Sessions stored before signing keys existed can't sign, so they count as expired
+export const isSessionValid = (session: IntakeSession | null): session is IntakeSession =>
+  !!session && !!session.signingKey && session.expiresAt > Date.now();
+
+// Session storage keeps the token across refreshes but not across tabs closing
+export const loadIntakeSession = (slug: string): IntakeSession | null => {
+  try {
+    const session = JSON.parse(sessionStorage.getItem(storageKey(slug)) ?? "null");
+    return isSessionValid(session) ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveIntakeSession = (slug: string, session: IntakeSession) => {
+  sessionStorage.setItem(storageKey(slug), JSON.stringify(session));
+};
+
+export const clearIntakeSession = (slug: string) => {
+  sessionStorage.removeItem(storageKey(slug));
+};
@@ -0,0 +1,147 @@
+import { BrokerageConfig } from "@/config/brokerages";
+
+type Regions = BrokerageConfig["regions"];
+
+/** One state (or the single unnamed list of a flat config) in the editor's working tree */
+export interface RegionGroup {
+  /** Stable across renames, so React keys and drag targets survive typing */
+  id: string;
+  state: string;
+  regions: string[];
+}
+
+/**
+ * Editable form of `BrokerageConfig.regions`. Unlike the config it can hold
+ * half-finished states (blank or repeated names) while an admin is typing;
+ * {@link fromRegionTree} only runs once {@link regionTreeProblems} is empty.
+ */
+export interface RegionTree {
+  grouped: boolean;
+  groups: RegionGroup[];
+}
+
+export interface RegionPosition {
+  groupId: string;
+  index: number;
+}
+
+let nextGroupId = 0;
+const groupId = () => `group-${++nextGroupId}`;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+export const toRegionTree = (regions: Regions): RegionTree =>
+  Array.isArray(regions)
+    ? { grouped: false, groups: [{ id: groupId(), state: "", regions: [...regions] }] }
+    : {
+        grouped: true,
+        groups: Object.entries(regions).map(([state, list]) => ({ id: groupId(), state, regions: [...list] })),
+      };
+
+export const fromRegionTree = (tree: RegionTree): Regions =>
+  tree.grouped
+    ? Object.fromEntries(tree.groups.map((group) => [group.state.trim(), group.regions.map((region) => region.trim())]))
+    : (tree.groups[0]?.regions ?? []).map((region) => region.trim());
+
+/** Why the tree can't become a config yet; empty when it can. */
+export const regionTreeProblems = (tree: RegionTree) => {
+  const problems: string[] = [];
+  const states = new Set<string>();
+  tree.groups.forEach((group) => {
+    const label = tree.grouped ? group.state.trim() || "A state" : "The list";
+    if (tree.grouped) {
+      if (!group.state.trim()) problems.push("Every state needs a name");
+      else if (states.has(normalize(group.state))) problems.push(`${group.state.trim()} is listed twice`);
+      states.add(normalize(group.state));
+    }
+    if (!group.regions.length) problems.push(`${label} has no regions`);
+    if (group.regions.some((region) => !region.trim())) problems.push(`${label} has a blank region`);
+    const seen = new Set<string>();
+    group.regions.forEach((region) => {
+      if (region.trim() && seen.has(normalize(region))) problems.push(`${label} lists "${region.trim()}" twice`);
+      seen.add(normalize(region));
+    });
+  });
+  if (!tree.groups.length) problems.push("Add at least one state");
+  return [...new Set(problems)];
+};
+
+const updateGroup = (tree: RegionTree, id: string, update: (group: RegionGroup) => RegionGroup): RegionTree => ({
+  ...tree,
+  groups: tree.groups.map((group) => (group.id === id ? update(group) : group)),
+});
+
+/** Moves a region within or between states; `to.index` is read before the region is taken out. */
+export const moveRegion = (tree: RegionTree, from: RegionPosition, to: RegionPosition): RegionTree => {
+  const source = tree.groups.find((group) => group.id === from.groupId);
+  const region = source?.regions[from.index];
+  if (region === undefined || !tree.groups.some((group) => group.id === to.groupId)) return tree;
+  // Dropping below itself in the same list shifts the target up by the removed slot
+  const targetIndex = from.groupId === to.groupId && to.index > from.index ? to.index - 1 : to.index;
+  const removed = updateGroup(tree, from.groupId, (group) => ({
+    ...group,
+    regions: group.regions.filter((_, i) => i !== from.index),
+  }));
+  return updateGroup(removed, to.groupId, (group) => {
+    const regions = [...group.regions];
+    regions.splice(Math.max(0, Math.min(targetIndex, regions.length)), 0, region);
+    return { ...group, regions };
+  });
+};
+
+export const addRegion = (tree: RegionTree, id: string, region: string) =>
+  updateGroup(tree, id, (group) => ({ ...group, regions: [...group.regions, region] }));
+
+export const renameRegion = (tree: RegionTree, { groupId: id, index }: RegionPosition, region: string) =>
+  updateGroup(tree, id, (group) => ({
+    ...group,
+    regions: group.regions.map((existing, i) => (i === index ? region : existing)),
+  }));
+
+export const removeRegion = (tree: RegionTree, { groupId: id, index }: RegionPosition) =>
+  updateGroup(tree, id, (group) => ({ ...group, regions: group.regions.filter((_, i) => i !== index) }));
+
+export const addState = (tree: RegionTree, state = ""): RegionTree => ({
+  ...tree,
+  groups: [...tree.groups, { id: groupId(), state, regions: [] }],
+});
+
+export const renameState = (tree: RegionTree, id: string, state: string) =>
+  updateGroup(tree, id, (group) => ({ ...group, state }));
+
+export const removeState = (tree: RegionTree, id: string): RegionTree => ({
+  ...tree,
+  groups: tree.groups.filter((group) => group.id !== id),
+});
+
+/** Swaps a state with its neighbour; `offset` is -1 (up) or 1 (down). */
+export const moveState = (tree: RegionTree, id: string, offset: -1 | 1): RegionTree => {
+  const index = tree.groups.findIndex((group) => group.id === id);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= tree.groups.length) return tree;
+  const groups = [...tree.groups];
+  [groups[index], groups[target]] = [groups[target], groups[index]];
+  return { ...tree, groups };
+};
+
+/** Puts a flat list under one state, named `state` (left blank for the admin to fill in). */
+export const groupRegions = (tree: RegionTree, state = ""): RegionTree =>
+  tree.grouped ? tree : { grouped: true, groups: [{ ...tree.groups[0], state }] };
+
+/**
+ * Flattens states into one list in state order. A region listed under two
+ * states is kept once, since the flat form has nothing to tell them apart.
+ */
+export const flattenRegions = (tree: RegionTree): RegionTree => {
+  if (!tree.grouped) return tree;
+  const seen = new Set<string>();
+  const regions = tree.groups
+    .flatMap((group) => group.regions)
+    .filter((region) => {
+      const key = normalize(region);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  return { grouped: false, groups: [{ id: groupId(), state: "", regions }] };
+};
@@ -0,0 +1,85 @@
+import { BrokerageConfig } from "@/config/brokerages";
+import { BrokerageLintIssue, lintBrokerage } from "@/lib/brokerageLint";
+import { BrokerageRegistryError, parseBrokerageRegistry } from "@/lib/brokerageRegistry";
+
+// The admin console's working copy of the registry. It is kept on this
+// device until exported, so a half-finished brokerage survives a refresh
+// without ever reaching agents.
+
+const STORAGE_KEY = "oliza:admin-registry-draft";
+
+export interface RegistryDraftEntry {
+  /** The brokerage's slug in the published registry; unset until it first ships */
+  publishedSlug?: string;
+  config: BrokerageConfig;
+}
+
+export const draftFromRegistry = (registry: BrokerageConfig[]): RegistryDraftEntry[] =>
+  registry.map((config) => ({ publishedSlug: config.slug, config }));
+
+export const loadRegistryDraft = (): RegistryDraftEntry[] | null => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveRegistryDraft = (entries: RegistryDraftEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.warn("Could not save the registry draft:", error);
+  }
+};
+
+export const clearRegistryDraft = () => localStorage.removeItem(STORAGE_KEY);
+
+/** "Acme Realty, LLC" → "acme-realty-llc" */
+export const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+export const createBrokerageDraft = (name = "New Brokerage"): BrokerageConfig => ({
+  name,
+  slug: slugify(name),
+  logoUrl: "",
+  regions: [],
+});
+
+/** Same shape and formatting as public/brokerages.json, so exports diff cleanly. */
+export const serializeRegistry = (registry: BrokerageConfig[]) =>
+  JSON.stringify({ brokerages: registry }, null, 2) + "\n";
+
+export interface RegistryDraftCheck {
+  /** Schema problems, formatted like the app's error screen; any of these block export */
+  schemaIssues: string[];
+  /** Lint results, only available once the schema passes */
+  lintIssues: BrokerageLintIssue[];
+  canExport: boolean;
+}
+
+/** Runs the app's registry schema and the validate:brokerages lint rules (minus the slow PIN guessing). */
+export const checkRegistryDraft = (registry: BrokerageConfig[]): RegistryDraftCheck => {
+  let parsed: BrokerageConfig[];
+  try {
+    parsed = parseBrokerageRegistry({ brokerages: registry });
+  } catch (error) {
+    const schemaIssues =
+      error instanceof BrokerageRegistryError && error.issues.length
+        ? error.issues
+        : [error instanceof Error ? error.message : String(error)];
+    return { schemaIssues, lintIssues: [], canExport: false };
+  }
+  const lintIssues = parsed.flatMap((config) => lintBrokerage(config, parsed));
+  return {
+    schemaIssues: [],
+    lintIssues,
+    canExport: !lintIssues.some((issue) => issue.severity === "error"),
+  };
+};
@@ -0,0 +1,94 @@
+import { hmacSha256, timingSafeEqual } from "@/lib/crypto";
+
+/**
+ * Webhook request signing. The client sends
+ *
+ *   X-Oliza-Timestamp: <epoch ms>
+ *   X-Oliza-Signature: v1=<hex HMAC-SHA256 of `${timestamp}.${raw body}`>
+ *
+ * keyed by the session's signing key, which sign-in issues (see pinAuth.ts
+ * and agentSignIn.ts). Receivers recompute the HMAC over the exact bytes received,
+ * reject stale timestamps and remember signatures to refuse replays.
+ */
+export const TIMESTAMP_HEADER = "X-Oliza-Timestamp";
+export const SIGNATURE_HEADER = "X-Oliza-Signature";
+
+const SIGNATURE_VERSION = "v1";
+const DEFAULT_TOLERANCE_MS = 5 * 60 * 1000;
+
+/** Headers to send with `body`; sign the exact string that goes on the wire. */
+export const signRequest = async (body: string, signingKey: string, timestamp = Date.now()) => ({
+  [TIMESTAMP_HEADER]: String(timestamp),
+  [SIGNATURE_HEADER]: `${SIGNATURE_VERSION}=${await hmacSha256(signingKey, `${timestamp}.${body}`)}`,
+});
+
+export interface SignatureCheck {
+  ok: boolean;
+  /** Why the request was rejected */
+  reason?: string;
+}
+
+/** Remembers signatures seen inside the tolerance window. */
+export interface ReplayGuard {
+  /** Records the signature; returns false if it was already seen */
+  claim: (signature: string, timestamp: number) => boolean;
+}
+
+/** In-memory {@link ReplayGuard}; backends running several instances need a shared store instead. */
+export const createReplayGuard = (toleranceMs = DEFAULT_TOLERANCE_MS): ReplayGuard => {
+  const seen = new Map<string, number>();
+  return {
+    claim: (signature, timestamp) => {
+      const cutoff = Date.now() - toleranceMs;
+      // Older timestamps fail the window check anyway, so they needn't be kept
+      seen.forEach((sentAt, key) => {
+        if (sentAt < cutoff) seen.delete(key);
+      });
+      if (seen.has(signature)) return false;
+      seen.set(signature, timestamp);
+      return true;
+    },
+  };
+};
+
+/**
+ * Checks the signature headers of a received webhook request. Pass the raw
+ * body: re-serialized JSON may not match byte for byte. Legitimate retries
+ * are re-signed with a fresh timestamp, so a repeated signature is a replay.
+ */
+export const verifySignedRequest = async ({
+  body,
+  timestamp,
+  signature,
+  signingKey,
+  replayGuard,
+  toleranceMs = DEFAULT_TOLERANCE_MS,
+  now = Date.now(),
+}: {
+  body: string;
+  timestamp: string | undefined;
+  signature: string | undefined;
+  signingKey: string;
+  replayGuard?: ReplayGuard;
+  toleranceMs?: number;
+  now?: number;
+}): Promise<SignatureCheck> => {
+  if (!timestamp || !signature) {
+    return { ok: false, reason: `Missing ${TIMESTAMP_HEADER} or ${SIGNATURE_HEADER} header` };
+  }
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(now - sentAt) > toleranceMs) {
+    return { ok: false, reason: "Signature timestamp is outside the allowed window" };
+  }
+  const [version, digest] = signature.split("=");
+  if (version !== SIGNATURE_VERSION || !digest) {
+    return { ok: false, reason: "Unsupported signature format" };
+  }
+  if (!timingSafeEqual(await hmacSha256(signingKey, `${timestamp}.${body}`), digest)) {
+    return { ok: false, reason: "Signature does not match" };
+  }
+  if (replayGuard && !replayGuard.claim(digest, sentAt)) {
+    return { ok: false, reason: "Signature has already been used" };
+  }
+  return { ok: true };
+};
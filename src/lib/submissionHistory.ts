@@ -0,0 +1,67 @@
+import { normalizeEmail } from "@/lib/agentIdentity";
+
+export interface GuideHistoryEntry {
+  submissionId: string;
+  brokerageSlug: string;
+  agentEmail: string;
+  buyerName: string;
+  /** Display strings captured at submit time, e.g. "Southern Maine Coast, Maine" and "$500K – $750K" */
+  region: string;
+  budget: string;
+  /** Epoch milliseconds */
+  submittedAt: number;
+  /** Webhook the guide went to, and the payload sent; kept so it can be resent */
+  url: string;
+  payload: Record<string, unknown>;
+  /** Submission ID of the guide this one resent */
+  resendOf?: string;
+}
+
+const STORAGE_KEY = "oliza:submission-history";
+const MAX_ENTRIES = 100;
+/** Entries hold the buyer's details, so they're dropped once a resend is unlikely */
+export const HISTORY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const writeHistory = (history: GuideHistoryEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history.slice(0, MAX_ENTRIES)));
+  } catch (error) {
+    // History is a convenience; a full quota must never fail a submission
+    console.error("Could not save submission history:", error);
+  }
+};
+
+// Expired entries are purged from storage on every read, not just hidden
+const readHistory = (): GuideHistoryEntry[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+  const cutoff = Date.now() - HISTORY_RETENTION_MS;
+  const history = (parsed as GuideHistoryEntry[]).filter((entry) => entry.submittedAt > cutoff);
+  if (history.length !== parsed.length) writeHistory(history);
+  return history;
+};
+
+/** A brokerage's history on this device, newest first; narrowed to one agent when given. */
+export const loadHistory = (brokerageSlug: string, agentEmail?: string) =>
+  readHistory()
+    .filter(
+      (entry) =>
+        entry.brokerageSlug === brokerageSlug &&
+        (!agentEmail || normalizeEmail(entry.agentEmail) === normalizeEmail(agentEmail)),
+    )
+    .sort((a, b) => b.submittedAt - a.submittedAt);
+
+/** Agents with history for the brokerage, most recently active first. */
+export const historyAgents = (brokerageSlug: string) => [
+  ...new Set(loadHistory(brokerageSlug).map((entry) => normalizeEmail(entry.agentEmail))),
+];
+
+/** Records a submitted or queued guide; re-recording a submission ID replaces it. */
+export const recordSubmission = (entry: GuideHistoryEntry) => {
+  writeHistory([entry, ...readHistory().filter((existing) => existing.submissionId !== entry.submissionId)]);
+};
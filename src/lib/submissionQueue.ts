@@ -0,0 +1,221 @@
+import { deleteDraft } from "@/lib/drafts";
+import { postGuide } from "@/lib/submitGuide";
+
+export type QueuedSubmissionStatus = "pending" | "sending" | "sent" | "failed";
+
+export interface QueuedSubmission {
+  /** The submission ID; also the Idempotency-Key, so re-queuing a guide replaces its entry */
+  id: string;
+  brokerageSlug: string;
+  url: string;
+  payload: Record<string, unknown>;
+  /** Session signing key, kept so retries after the tab closes can still be signed */
+  signingKey: string;
+  buyerName: string;
+  agentEmail: string;
+  /** Draft kept until this submission is sent, so a failure loses nothing */
+  draftId?: string;
+  status: QueuedSubmissionStatus;
+  attempts: number;
+  /** Epoch milliseconds */
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type QueueEvent =
+  | { type: "change"; entries: QueuedSubmission[] }
+  | { type: "settled"; entry: QueuedSubmission };
+
+const DB_NAME = "oliza-intake";
+const DB_VERSION = 1;
+const STORE = "submissions";
+
+const BASE_DELAY_MS = 5000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+
+// --- IndexedDB plumbing -----------------------------------------------------
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE)) {
+        request.result.createObjectStore(STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const listQueued = async (): Promise<QueuedSubmission[]> => {
+  const entries = await withStore<QueuedSubmission[]>("readonly", (store) => store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+const putQueued = (entry: QueuedSubmission) => withStore("readwrite", (store) => store.put(entry));
+
+const deleteQueued = (id: string) => withStore("readwrite", (store) => store.delete(id));
+
+// --- Events -------------------------------------------------------------------
+
+const listeners = new Set<(event: QueueEvent) => void>();
+
+export const subscribeToQueue = (listener: (event: QueueEvent) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const emit = (event: QueueEvent) => listeners.forEach((listener) => listener(event));
+
+const emitChange = async () => emit({ type: "change", entries: await listQueued() });
+
+// --- Processing -------------------------------------------------------------------
+
+/** 5s, 10s, 20s … capped at 5 minutes */
+export const backoffDelay = (attempts: number) =>
+  Math.min(BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_DELAY_MS);
+
+let processing = false;
+let wakeTimer: ReturnType<typeof setTimeout> | undefined;
+
+const scheduleWake = (entries: QueuedSubmission[]) => {
+  clearTimeout(wakeTimer);
+  const next = Math.min(
+    ...entries.filter((entry) => entry.status === "pending").map((entry) => entry.nextAttemptAt),
+  );
+  if (Number.isFinite(next)) {
+    wakeTimer = setTimeout(processQueue, Math.max(next - Date.now(), 0));
+  }
+};
+
+const attempt = async (entry: QueuedSubmission) => {
+  await putQueued({ ...entry, status: "sending", updatedAt: Date.now() });
+  await emitChange();
+
+  // Queued before submissions were signed; its draft is still there to resubmit
+  const result = entry.signingKey
+    ? await postGuide(entry.url, entry.payload, entry.id, entry.signingKey)
+    : { ok: false, retryable: false, message: "Please reopen this guide's draft and submit it again." };
+  const attempts = entry.attempts + 1;
+  const now = Date.now();
+
+  if (result.ok) {
+    const sent: QueuedSubmission = { ...entry, status: "sent", attempts, lastError: undefined, updatedAt: now };
+    await putQueued(sent);
+    if (sent.draftId) {
+      deleteDraft(sent.brokerageSlug, sent.draftId);
+    }
+    emit({ type: "settled", entry: sent });
+    return;
+  }
+  if (result.retryable && attempts < MAX_ATTEMPTS) {
+    await putQueued({
+      ...entry,
+      status: "pending",
+      attempts,
+      lastError: result.message,
+      nextAttemptAt: now + backoffDelay(attempts),
+      updatedAt: now,
+    });
+    return;
+  }
+  const failed: QueuedSubmission = { ...entry, status: "failed", attempts, lastError: result.message, updatedAt: now };
+  await putQueued(failed);
+  emit({ type: "settled", entry: failed });
+};
+
+/** Sends every pending submission that is due. Safe to call repeatedly. */
+export async function processQueue() {
+  if (processing) return;
+  processing = true;
+  try {
+    if (navigator.onLine) {
+      const due = (await listQueued()).filter(
+        (entry) => entry.status === "pending" && entry.nextAttemptAt <= Date.now(),
+      );
+      for (const entry of due) {
+        if (!navigator.onLine) break;
+        await attempt(entry);
+      }
+    }
+  } catch (error) {
+    console.error("Submission queue failed:", error);
+  } finally {
+    processing = false;
+  }
+  const entries = await listQueued().catch(() => [] as QueuedSubmission[]);
+  emit({ type: "change", entries });
+  scheduleWake(entries);
+}
+
+export const enqueueSubmission = async (
+  entry: Pick<QueuedSubmission, "id" | "brokerageSlug" | "url" | "payload" | "signingKey" | "buyerName" | "agentEmail" | "draftId">,
+  lastError?: string,
+) => {
+  const now = Date.now();
+  // Submissions that already failed once wait one backoff step; offline ones go as soon as we're online
+  await putQueued({
+    ...entry,
+    status: "pending",
+    attempts: lastError ? 1 : 0,
+    lastError,
+    nextAttemptAt: lastError ? now + backoffDelay(1) : now,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await processQueue();
+};
+
+/** Puts a failed submission back in line for an immediate attempt. */
+export const retrySubmission = async (id: string) => {
+  const entry = (await listQueued()).find((candidate) => candidate.id === id);
+  if (!entry) return;
+  await putQueued({ ...entry, status: "pending", attempts: 0, nextAttemptAt: Date.now(), updatedAt: Date.now() });
+  await processQueue();
+};
+
+export const dismissSubmission = async (id: string) => {
+  await deleteQueued(id);
+  await emitChange();
+};
+
+let started = false;
+
+/** Retries whenever the browser comes back online; call once at startup. */
+export const startSubmissionQueue = () => {
+  if (started) return;
+  started = true;
+  window.addEventListener("online", processQueue);
+  // Entries left "sending" by a closed tab never got a response; try them again
+  listQueued()
+    .then((entries) =>
+      Promise.all(
+        entries
+          .filter((entry) => entry.status === "sending")
+          .map((entry) => putQueued({ ...entry, status: "pending", nextAttemptAt: Date.now() })),
+      ),
+    )
+    .catch((error) => console.error("Could not open submission queue:", error))
+    .finally(processQueue);
+};
@@ -0,0 +1,65 @@
+import { signRequest } from "@/lib/requestSigning";
+
+export interface SubmitResult {
+  ok: boolean;
+  /** Missing when the request never got a response */
+  status?: number;
+  /** Failures only: network errors, 408/429 and 5xx are worth retrying; other 4xx are not */
+  retryable?: boolean;
+  message?: string;
+}
+
+const DEFAULT_ERROR = "Something went wrong. Please try again.";
+const NETWORK_ERROR = "Something went wrong. Please check your connection and try again.";
+
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+/**
+ * POSTs a buyer-guide payload to the webhook; never throws. `submissionId` is
+ * sent as the Idempotency-Key header and must be reused for every retry of
+ * the same payload so the backend can drop duplicates; a guide edited after a
+ * rejection needs a new one. Each attempt is
+ * signed afresh with the session's `signingKey`.
+ */
+export const postGuide = async (
+  url: string,
+  payload: Record<string, unknown>,
+  submissionId: string,
+  signingKey: string,
+): Promise<SubmitResult> => {
+  let response: Response;
+  try {
+    console.log("Submitting to:", url);
+    const body = JSON.stringify(payload);
+    response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Idempotency-Key": submissionId,
+        ...(await signRequest(body, signingKey)),
+      },
+      body,
+    });
+  } catch (error) {
+    console.error("Submission failed:", error);
+    return { ok: false, retryable: true, message: NETWORK_ERROR };
+  }
+
+  console.log("Response status:", response.status);
+
+  if (response.ok) {
+    return { ok: true, status: response.status };
+  }
+
+  let message = DEFAULT_ERROR;
+  try {
+    const data = await response.json();
+    if (data?.message) {
+      message = data.message;
+    }
+  } catch {
+    // Response wasn't JSON, use default message
+    console.log("Response was not JSON");
+  }
+  return { ok: false, retryable: isRetryableStatus(response.status), status: response.status, message };
+};
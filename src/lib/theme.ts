@@ -0,0 +1,45 @@
+import { BrokerageBranding } from "@/config/brokerages";
+
+/** "#365989" → "213 44% 37%", the bare HSL triplet format used in index.css */
+export const hexToHslTriplet = (hex: string): string | null => {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const digits = match[1].length === 3
+    ? match[1].split("").map((d) => d + d).join("")
+    : match[1];
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16) / 255);
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  let h = 0;
+  let s = 0;
+  if (max !== min) {
+    const d = max - min;
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    if (max === r) h = (g - b) / d + (g < b ? 6 : 0);
+    else if (max === g) h = (b - r) / d + 2;
+    else h = (r - g) / d + 4;
+    h *= 60;
+  }
+  return `${Math.round(h)} ${Math.round(s * 100)}% ${Math.round(l * 100)}%`;
+};
+
+/** Maps branding tokens onto the CSS custom properties declared in index.css. */
+export const brandingCssVariables = (branding: BrokerageBranding = {}): Record<string, string> => {
+  const vars: Record<string, string> = {};
+  const primary = branding.primaryColor && hexToHslTriplet(branding.primaryColor);
+  if (primary) {
+    for (const name of ["--primary", "--ring", "--slider-range", "--secondary-foreground", "--accent-foreground"]) {
+      vars[name] = primary;
+    }
+  }
+  const accent = branding.accentColor && hexToHslTriplet(branding.accentColor);
+  if (accent) {
+    vars["--accent"] = accent;
+    vars["--secondary"] = accent;
+  }
+  if (branding.headingFont) vars["--font-heading"] = `"${branding.headingFont}"`;
+  if (branding.bodyFont) vars["--font-body"] = `"${branding.bodyFont}"`;
+  return vars;
+};
@@ -0,0 +1,20 @@
+import { Helmet } from "react-helmet-async";
+import AdminConsole from "@/components/AdminConsole";
+import BrokerageRegistryGate from "@/components/BrokerageRegistryGate";
+
+/**
+ * /admin: create and edit brokerages, preview them and export the registry.
+ * A local editing tool with no access control: it only reads the public
+ * registry and writes a file that still has to be committed and deployed.
+ */
+const AdminPage = () => (
+  <>
+    <Helmet>
+      <title>Brokerage Registry Editor</title>
+      <meta name="robots" content="noindex" />
+    </Helmet>
+    <BrokerageRegistryGate>{(registry) => <AdminConsole registry={registry} />}</BrokerageRegistryGate>
+  </>
+);
+
+export default AdminPage;
@@ -0,0 +1,63 @@
+import { useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Helmet } from "react-helmet-async";
+import { ChevronRight, SearchX } from "lucide-react";
+import { BrokerageConfig } from "@/config/brokerages";
+import { suggestBrokerages } from "@/lib/brokerageLookup";
+
+interface BrokerageNotFoundProps {
+  registry: BrokerageConfig[];
+  slug: string;
+}
+
+/** Shown for unknown /:slug routes, with close matches instead of guessing one. */
+const BrokerageNotFound = ({ registry, slug }: BrokerageNotFoundProps) => {
+  const suggestions = suggestBrokerages(registry, slug);
+
+  useEffect(() => {
+    console.error("Unknown brokerage slug:", slug);
+  }, [slug]);
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <Helmet>
+        <title>Brokerage Not Found</title>
+      </Helmet>
+      <div className="w-full max-w-[480px] bg-card rounded-xl shadow-lg p-8 text-center animate-fade-in">
+        <div className="w-12 h-12 mx-auto mb-4 rounded-full bg-secondary flex items-center justify-center">
+          <SearchX className="w-5 h-5 text-primary" />
+        </div>
+        <h1 className="font-heading font-semibold text-2xl text-foreground mb-2">Brokerage Not Found</h1>
+        <p className="text-text-tertiary text-sm mb-6">
+          There's no brokerage at <span className="font-medium text-text-secondary">/{slug}</span>.
+          {suggestions.length > 0 ? " Did you mean one of these?" : " Check the link your admin sent you."}
+        </p>
+
+        {suggestions.length > 0 && (
+          <ul className="space-y-2 mb-6 text-left">
+            {suggestions.map(({ config }) => (
+              <li key={config.slug}>
+                <Link
+                  to={`/${config.slug}`}
+                  className="flex items-center gap-3 rounded-lg border-2 border-input p-3 transition-all duration-150 hover:border-primary/50"
+                >
+                  <span className="flex-1 min-w-0">
+                    <span className="block font-medium text-foreground truncate">{config.name}</span>
+                    <span className="block text-sm text-text-tertiary truncate">/{config.slug}</span>
+                  </span>
+                  <ChevronRight className="w-5 h-5 shrink-0 text-text-tertiary" />
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Link to="/" className="text-sm font-medium text-primary hover:underline">
+          Browse all brokerages
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default BrokerageNotFound;
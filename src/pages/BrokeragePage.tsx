@@ -1,28 +1,110 @@
-import { useParams, Navigate } from "react-router-dom";
+import { useState } from "react";
+import { Navigate, useLocation, useParams } from "react-router-dom";
 import { Helmet } from "react-helmet-async";
-import { brokerages } from "@/config/brokerages";
+import BrokerageRegistryGate from "@/components/BrokerageRegistryGate";
 import BuyerGuideForm from "@/components/BuyerGuideForm";
+import GuideHistory from "@/components/GuideHistory";
+import { BrokerageConfig } from "@/config/brokerages";
+import PinGate from "@/components/PinGate";
+import BrokerageNotFound from "@/pages/BrokerageNotFound";
+import { useBrokerageTheme } from "@/hooks/use-brokerage-theme";
+import { resolveBrokerageSlug } from "@/lib/brokerageLookup";
+import {
+  IntakeSession,
+  clearIntakeSession,
+  loadIntakeSession,
+  saveIntakeSession,
+} from "@/lib/pinAuth";
 
-const BrokeragePage = () => {
-  const { slug } = useParams<{ slug: string }>();
-  const config = slug ? brokerages[slug] : undefined;
+interface BrokeragePageProps {
+  /** "history" shows the agent's submitted guides instead of the form */
+  view?: "form" | "history";
+}
 
-  if (!config) {
-    return <Navigate to="/duston-leddy" replace />;
-  }
+const BrokerageView = ({ config, view }: { config: BrokerageConfig; view: BrokeragePageProps["view"] }) => {
+  useBrokerageTheme(config.branding);
+  const [session, setSession] = useState<IntakeSession | null>(() => loadIntakeSession(config.slug));
+  const [sessionExpired, setSessionExpired] = useState(false);
+
+  const expireSession = () => {
+    clearIntakeSession(config.slug);
+    setSession(null);
+    setSessionExpired(true);
+  };
+
+  const signOut = () => {
+    clearIntakeSession(config.slug);
+    setSession(null);
+    setSessionExpired(false);
+  };
 
   return (
     <>
       <Helmet>
-        <title>Generate Buyer Guide | {config.name}</title>
+        <title>{view === "history" ? "Your Guides" : "Generate Buyer Guide"} | {config.name}</title>
         <meta
           name="description"
           content={`Create a personalized home buyer guide with ${config.name} in under 3 minutes.`}
         />
+        {config.branding?.faviconUrl && <link rel="icon" href={config.branding.faviconUrl} />}
+        {config.branding?.fontStylesheetUrl && (
+          <link rel="stylesheet" href={config.branding.fontStylesheetUrl} />
+        )}
       </Helmet>
-      <BuyerGuideForm brokerage={config} />
+      {session ? (
+        view === "history" ? (
+          <GuideHistory brokerage={config} session={session} onSessionExpired={expireSession} />
+        ) : (
+          <BuyerGuideForm
+            brokerage={config}
+            session={session}
+            onSessionExpired={expireSession}
+            onSignOut={signOut}
+          />
+        )
+      ) : (
+        <PinGate
+          brokerage={config}
+          notice={sessionExpired ? "Your session expired. Sign in again to submit your guide." : undefined}
+          onVerified={(verified) => {
+            saveIntakeSession(config.slug, verified);
+            setSession(verified);
+            setSessionExpired(false);
+          }}
+        />
+      )}
     </>
   );
 };
 
+const BrokerageRoute = ({ registry, view }: { registry: BrokerageConfig[]; view: BrokeragePageProps["view"] }) => {
+  const { slug } = useParams<{ slug: string }>();
+  const location = useLocation();
+  const match = resolveBrokerageSlug(registry, slug);
+
+  if (!match) {
+    return <BrokerageNotFound registry={registry} slug={slug ?? ""} />;
+  }
+  const { config } = match;
+  // Aliases only ever redirect, so drafts, sessions and payloads all key off the canonical slug
+  if (!match.isCanonical) {
+    return (
+      <Navigate
+        to={{
+          pathname: location.pathname.replace(/^\/[^/]+/, `/${config.slug}`),
+          search: location.search,
+          hash: location.hash,
+        }}
+        replace
+      />
+    );
+  }
+  // Keyed so following a link to another brokerage starts from that brokerage's session
+  return <BrokerageView key={config.slug} config={config} view={view} />;
+};
+
+const BrokeragePage = ({ view = "form" }: BrokeragePageProps) => (
+  <BrokerageRegistryGate>{(registry) => <BrokerageRoute registry={registry} view={view} />}</BrokerageRegistryGate>
+);
+
 export default BrokeragePage;
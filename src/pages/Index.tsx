@@ -1,7 +1,86 @@
-import { Navigate } from "react-router-dom";
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Helmet } from "react-helmet-async";
+import { ChevronRight, Search } from "lucide-react";
+import BrokerageRegistryGate from "@/components/BrokerageRegistryGate";
+import { BrokerageConfig } from "@/config/brokerages";
+import { listBrokerages } from "@/lib/brokerageLookup";
 
-const Index = () => {
-  return <Navigate to="/demo" replace />;
+/** Brokerage directory; agents pick their brokerage or search by name or slug. */
+const BrokerageDirectory = ({ registry }: { registry: BrokerageConfig[] }) => {
+  const [query, setQuery] = useState("");
+  const needle = query.trim().toLowerCase();
+  const results = listBrokerages(registry).filter(
+    (config) =>
+      !needle ||
+      config.name.toLowerCase().includes(needle) ||
+      config.slug.includes(needle) ||
+      config.aliases?.some((alias) => alias.includes(needle)),
+  );
+
+  return (
+    <div className="min-h-screen bg-background py-12 px-4 md:px-6">
+      <Helmet>
+        <title>Buyer Guide Intake | Choose Your Brokerage</title>
+      </Helmet>
+      <div className="w-full max-w-[600px] mx-auto">
+        <div className="text-center mb-8 animate-fade-in">
+          <h1 className="font-heading font-semibold text-[28px] md:text-[32px] text-foreground mb-2">
+            Choose Your Brokerage
+          </h1>
+          <p className="text-text-tertiary text-base">
+            Pick your brokerage to start a personalized buyer guide.
+          </p>
+        </div>
+
+        <div className="bg-card rounded-xl shadow-lg p-6 md:p-8 animate-fade-in" style={{ animationDelay: "0.1s" }}>
+          <div className="relative mb-5">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-text-tertiary" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by brokerage name or link"
+              aria-label="Search brokerages"
+              className="form-input pl-9"
+            />
+          </div>
+
+          {results.length === 0 ? (
+            <p className="text-sm text-text-tertiary text-center py-8">
+              No brokerage matches "{query}". Check the link your admin sent you.
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {results.map((config) => (
+                <li key={config.slug}>
+                  <Link
+                    to={`/${config.slug}`}
+                    className="flex items-center gap-4 rounded-lg border-2 border-input bg-card p-4 transition-all duration-150 hover:border-primary/50"
+                  >
+                    <img
+                      src={config.logoUrl}
+                      alt=""
+                      className="w-20 h-10 shrink-0 object-contain"
+                    />
+                    <span className="flex-1 min-w-0">
+                      <span className="block font-medium text-foreground truncate">{config.name}</span>
+                      <span className="block text-sm text-text-tertiary truncate">/{config.slug}</span>
+                    </span>
+                    <ChevronRight className="w-5 h-5 shrink-0 text-text-tertiary" />
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
 };
 
+const Index = () => (
+  <BrokerageRegistryGate>{(registry) => <BrokerageDirectory registry={registry} />}</BrokerageRegistryGate>
+);
+
 export default Index;
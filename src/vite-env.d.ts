@@ -1 +1,18 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** production | staging | preview | development; required by `npm run build`, else development */
+  readonly VITE_APP_ENV?: string;
+  /** Buyer-guide webhook; defaults to the n8n endpoint for VITE_APP_ENV */
+  readonly VITE_WEBHOOK_URL?: string;
+  /** Guide status endpoint; defaults to the n8n endpoint for VITE_APP_ENV */
+  readonly VITE_STATUS_URL?: string;
+  /** Brokerage registry JSON; defaults to the bundled /brokerages.json */
+  readonly VITE_BROKERAGE_REGISTRY_URL?: string;
+  /** Email sign-in code service; required by `npm run build` when a brokerage offers email sign-in */
+  readonly VITE_AGENT_CODE_SERVICE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -14,8 +14,8 @@ export default {
     },
     extend: {
       fontFamily: {
-        heading: ["Montserrat", "sans-serif"],
-        body: ["Lato", "sans-serif"],
+        heading: ["var(--font-heading)", "Montserrat", "sans-serif"],
+        body: ["var(--font-body)", "Lato", "sans-serif"],
         accent: ["Gelasio", "serif"],
       },
       colors: {